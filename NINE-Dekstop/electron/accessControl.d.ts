@@ -0,0 +1,41 @@
+import type { KeyObject } from 'crypto';
+
+export type RateLimit = 'gatewaySubmit' | 'connections' | 'peerFrames' | 'serverFrames';
+
+export interface AccessControlOptions {
+  meshSecret?: string | null;
+  allowedNodes?: string[];
+  allowedOrigins?: string[];
+}
+
+export interface JoinRequest {
+  peerId: string;
+  publicKey?: string;
+  timestamp?: string;
+  signature?: string;
+  secret?: string;
+}
+
+export interface NodeKey {
+  privateKey: KeyObject;
+  publicKey: string; // base64url, as listed in NINE_ALLOWED_NODES
+}
+
+export const MAX_ATTACHMENT_CHUNKS: number;
+export const MAX_KEY_RECIPIENTS: number;
+export const MAX_FRAME_BYTES: number;
+
+export function configureAccessControl(options: AccessControlOptions): void;
+export function takeToken(limit: RateLimit, key: string): boolean;
+export function getRetryAfter(limit: RateLimit): number;
+export function checkEnvelopeSize(
+  envelope: { type?: string; recipients?: unknown },
+  envelopeType?: string
+): string | null;
+export function checkJoin(message: JoinRequest): string | null;
+export function loadOrCreateNodeKey(directory: string): NodeKey;
+export function signRegistration(
+  nodeKey: NodeKey,
+  peerId: string
+): Required<Pick<JoinRequest, 'publicKey' | 'timestamp' | 'signature'>>;
+export function isOriginAllowed(origin: string): boolean;
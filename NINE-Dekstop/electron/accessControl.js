@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+
+// Token buckets: how many requests may arrive in a burst, and how fast the bucket refills
+const LIMITS = {
+  gatewaySubmit: { capacity: 5, perSecond: 1 / 12 }, // reports per IP
+  connections: { capacity: 20, perSecond: 1 / 3 }, // new mesh connections per IP
+  peerFrames: { capacity: 120, perSecond: 20 }, // frames per registered node
+  serverFrames: { capacity: 1000, perSecond: 200 }, // frames per federated server
+};
+const MAX_BUCKETS = 10000;
+
+// Largest serialized envelope accepted for each type; other types get the default
+const ENVELOPE_LIMITS = {
+  key: 4 * 1024,
+  receipt: 4 * 1024,
+  key_rotation: 16 * 1024,
+  broadcast: 32 * 1024,
+  reply: 32 * 1024,
+  e2e: 64 * 1024,
+  attachment: 64 * 1024,
+};
+const DEFAULT_ENVELOPE_LIMIT = 64 * 1024;
+
+// Group key envelopes carry one wrapped key per member (about 200 bytes each) on top of the
+// key limit. Recipient groups in the app are capped at the same member count
+const KEY_BYTES_PER_RECIPIENT = 256;
+export const MAX_KEY_RECIPIENTS = 64;
+
+// Largest frame taken from a link, whole or reassembled from chunks: the largest envelope with
+// room for the frame around it. Bounds what a peer can make the relay buffer
+export const MAX_FRAME_BYTES = Math.max(DEFAULT_ENVELOPE_LIMIT, ...Object.values(ENVELOPE_LIMITS)) + 8 * 1024;
+
+// Same limit as the desktop app and the gateway page: 2 MB in 32 KB chunks
+export const MAX_ATTACHMENT_CHUNKS = 64;
+
+// How far a signed registration's timestamp may be from the server clock
+const REGISTER_MAX_SKEW_MS = 5 * 60 * 1000;
+
+const buckets = new Map();
+
+let meshSecret = null;
+let allowedNodes = new Set();
+let allowedOrigins = [];
+
+/**
+ * Set the join policy. With neither a mesh secret nor allowed node keys anyone may join;
+ * otherwise a peer must present the secret or prove it holds an allowed node key.
+ */
+export function configureAccessControl(options) {
+  meshSecret = options.meshSecret || null;
+  allowedNodes = new Set(options.allowedNodes || []);
+  allowedOrigins = options.allowedOrigins || [];
+}
+
+/**
+ * Take one token from the `limit` bucket for `key` (an IP address or peer ID).
+ * Returns false when the bucket is empty and the request should be rejected.
+ */
+export function takeToken(limit, key) {
+  const { capacity, perSecond } = LIMITS[limit];
+  const id = `${limit}:${key}`;
+  const now = Date.now();
+  const bucket = buckets.get(id) || { tokens: capacity, updatedAt: now };
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond);
+  bucket.updatedAt = now;
+
+  // Most recently used last, so the bucket evicted first is the one idle longest
+  buckets.delete(id);
+  buckets.set(id, bucket);
+  if (buckets.size > MAX_BUCKETS) {
+    buckets.delete(buckets.keys().next().value);
+  }
+
+  if (bucket.tokens < 1) {
+    return false;
+  }
+  bucket.tokens -= 1;
+  return true;
+}
+
+// Seconds until an empty `limit` bucket has a token again, for Retry-After
+export function getRetryAfter(limit) {
+  return Math.ceil(1 / LIMITS[limit].perSecond);
+}
+
+// Returns why an envelope is too large to relay, or null when it fits
+export function checkEnvelopeSize(envelope, envelopeType) {
+  const type = envelopeType === 'key' ? 'key' : envelope.type;
+  let limit = ENVELOPE_LIMITS[type] || DEFAULT_ENVELOPE_LIMIT;
+  if (type === 'key' && Array.isArray(envelope.recipients)) {
+    if (envelope.recipients.length > MAX_KEY_RECIPIENTS) {
+      return `Key envelopes may wrap the key for at most ${MAX_KEY_RECIPIENTS} recipients, got ${envelope.recipients.length}`;
+    }
+    limit += envelope.recipients.length * KEY_BYTES_PER_RECIPIENT;
+  }
+  const size = Buffer.byteLength(JSON.stringify(envelope));
+  return size > limit ? `${type || 'Untyped'} envelopes may be at most ${limit} bytes, got ${size}` : null;
+}
+
+// Returns why a `register` frame may not join the mesh, or null when it may
+export function checkJoin(message) {
+  if (!meshSecret && allowedNodes.size === 0) {
+    return null;
+  }
+  if (meshSecret && typeof message.secret === 'string' && secretMatches(message.secret)) {
+    return null;
+  }
+  if (allowedNodes.has(message.publicKey) && verifyRegistration(message)) {
+    return null;
+  }
+
+  if (!meshSecret) {
+    return 'This node key is not allowed to join the mesh';
+  }
+  return allowedNodes.size > 0
+    ? 'Joining this mesh needs the join secret or an allowed node key'
+    : 'Joining this mesh needs the join secret';
+}
+
+export function isOriginAllowed(origin) {
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
+
+// Compare digests so the comparison takes the same time whatever the input length
+function secretMatches(secret) {
+  const digest = (value) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(secret), digest(meshSecret));
+}
+
+/**
+ * This server's Ed25519 node key, kept in <directory>/node-key.pem and created on first use.
+ * Federation links sign their registration with it, so an upstream that only admits
+ * NINE_ALLOWED_NODES can list the server there. `publicKey` is in the form that list takes.
+ */
+export function loadOrCreateNodeKey(directory) {
+  const keyPath = path.join(directory, 'node-key.pem');
+  let privateKey;
+  if (fs.existsSync(keyPath)) {
+    privateKey = createPrivateKey(fs.readFileSync(keyPath));
+  } else {
+    privateKey = generateKeyPairSync('ed25519').privateKey;
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  }
+  return { privateKey, publicKey: createPublicKey(privateKey).export({ format: 'jwk' }).x };
+}
+
+// The fields a `register` frame carries to prove it holds `nodeKey`, as peers send them
+export function signRegistration(nodeKey, peerId) {
+  const timestamp = new Date().toISOString();
+  const signature = sign(null, Buffer.from(`nine-register:${peerId}:${timestamp}`), nodeKey.privateKey);
+  return { publicKey: nodeKey.publicKey, timestamp, signature: signature.toString('base64url') };
+}
+
+// Nodes sign "nine-register:<peerId>:<timestamp>" with their Ed25519 node key
+function verifyRegistration(message) {
+  const timestamp = Date.parse(message.timestamp);
+  if (!timestamp || Math.abs(Date.now() - timestamp) > REGISTER_MAX_SKEW_MS) {
+    return false;
+  }
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: message.publicKey },
+      format: 'jwk',
+    });
+    return verify(
+      null,
+      Buffer.from(`nine-register:${message.peerId}:${message.timestamp}`),
+      key,
+      Buffer.from(message.signature, 'base64url')
+    );
+  } catch {
+    return false;
+  }
+}
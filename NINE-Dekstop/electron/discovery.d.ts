@@ -0,0 +1,20 @@
+export interface NearbyServer {
+  nodeId: string;
+  address: string;
+  port: number;
+  url: string; // ws:// or wss:// URL of its /mesh endpoint
+  lastSeen: number;
+}
+
+export interface DiscoveryOptions {
+  nodeId: string;
+  port: number;
+  tls?: boolean;
+  onChange?: (servers: NearbyServer[]) => void;
+  onDiscovered?: (server: NearbyServer) => void;
+  onLost?: (server: NearbyServer) => void;
+}
+
+export function startDiscovery(options: DiscoveryOptions): void;
+export function getNearbyServers(): NearbyServer[];
+export function stopDiscovery(): void;
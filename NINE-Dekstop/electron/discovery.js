@@ -0,0 +1,120 @@
+import dgram from 'dgram';
+
+const MULTICAST_GROUP = '239.255.42.99';
+const DISCOVERY_PORT = Number(process.env.NINE_DISCOVERY_PORT) || 41234;
+const ANNOUNCE_INTERVAL = 5000;
+const SERVER_EXPIRY = 15000;
+
+// Nearby NINE servers, keyed by their node ID
+const nearbyServers = new Map();
+
+let socket = null;
+let announceTimer = null;
+let expiryTimer = null;
+
+/**
+ * Announce this server on the LAN over UDP multicast and track the servers that announce back.
+ * `options.onChange(servers)` fires whenever a server appears or expires.
+ * `options.onDiscovered(server)` and `options.onLost(server)` fire as servers come and go.
+ * `options.tls` tells other servers to reach this one over wss://.
+ */
+export function startDiscovery(options) {
+  const { nodeId, port, tls, onChange, onDiscovered, onLost } = options;
+
+  socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+  socket.on('message', (data, rinfo) => {
+    try {
+      const announcement = JSON.parse(data.toString());
+      if (announcement.service !== 'nine' || !announcement.nodeId || !announcement.port) {
+        return;
+      }
+      if (announcement.nodeId === nodeId) {
+        return;
+      }
+
+      const isNew = !nearbyServers.has(announcement.nodeId);
+      const server = {
+        nodeId: announcement.nodeId,
+        address: rinfo.address,
+        port: announcement.port,
+        url: `${announcement.tls ? 'wss' : 'ws'}://${rinfo.address}:${announcement.port}/mesh`,
+        lastSeen: Date.now(),
+      };
+      nearbyServers.set(announcement.nodeId, server);
+
+      if (isNew) {
+        console.log(`📍 Discovered NINE server ${server.nodeId.substring(0, 8)} at ${server.url}`);
+        onDiscovered?.(server);
+        onChange?.(getNearbyServers());
+      }
+    } catch (error) {
+      // Not a NINE announcement
+    }
+  });
+
+  socket.on('error', (error) => {
+    console.error('Discovery socket error:', error.message);
+  });
+
+  socket.bind(DISCOVERY_PORT, () => {
+    try {
+      socket.addMembership(MULTICAST_GROUP);
+      socket.setMulticastTTL(1);
+      // Lets several instances on one machine find each other
+      socket.setMulticastLoopback(true);
+    } catch (error) {
+      console.error('Failed to join discovery multicast group:', error.message);
+      return;
+    }
+
+    const announce = () => {
+      const message = Buffer.from(
+        JSON.stringify({ service: 'nine', version: 1, nodeId, port, tls: Boolean(tls) })
+      );
+      socket.send(message, DISCOVERY_PORT, MULTICAST_GROUP, (error) => {
+        if (error) {
+          console.error('Discovery announce failed:', error.message);
+        }
+      });
+    };
+
+    announce();
+    announceTimer = setInterval(announce, ANNOUNCE_INTERVAL);
+  });
+
+  expiryTimer = setInterval(() => {
+    const cutoff = Date.now() - SERVER_EXPIRY;
+    let changed = false;
+    nearbyServers.forEach((server, id) => {
+      if (server.lastSeen < cutoff) {
+        nearbyServers.delete(id);
+        onLost?.(server);
+        changed = true;
+      }
+    });
+    if (changed) {
+      onChange?.(getNearbyServers());
+    }
+  }, ANNOUNCE_INTERVAL);
+}
+
+export function getNearbyServers() {
+  return Array.from(nearbyServers.values());
+}
+
+export function stopDiscovery() {
+  if (announceTimer) {
+    clearInterval(announceTimer);
+    announceTimer = null;
+  }
+  if (expiryTimer) {
+    clearInterval(expiryTimer);
+    expiryTimer = null;
+  }
+  if (socket) {
+    socket.close();
+    socket = null;
+  }
+  nearbyServers.clear();
+}
@@ -0,0 +1,25 @@
+import type { MeshMessageFrame, SyncRequestFrame } from '../relay/src/frames.js';
+import type { NodeKey } from './accessControl.js';
+
+export interface FederationOptions {
+  serverId: string;
+  peers?: string[];
+  onFrame: (frame: MeshMessageFrame, sourceUrl: string) => void;
+  createSyncRequest: () => SyncRequestFrame;
+  meshSecret?: string | null;
+  nodeKey?: NodeKey | null;
+  verifyCertificate?: (url: string, fingerprint: string) => boolean;
+}
+
+export interface Upstream {
+  url: string;
+  connected: boolean;
+}
+
+export function startFederation(options: FederationOptions): void;
+export function dialServer(url: string): void;
+export function dropServer(url: string): void;
+export function relayToUpstreams(frame: MeshMessageFrame, excludeUrl?: string): void;
+export function markFrameSeen(frame: MeshMessageFrame): boolean;
+export function getUpstreams(): Upstream[];
+export function stopFederation(): void;
@@ -0,0 +1,186 @@
+import { WebSocket } from 'ws';
+import { isTransferFrame, receiveTransferFrame, sendFrame, dropTransfers } from './transfer.js';
+import { MAX_FRAME_BYTES, signRegistration } from './accessControl.js';
+
+const RECONNECT_DELAY = 3000;
+const SEEN_LIMIT = 5000;
+
+// Outbound links to other NINE servers, keyed by their /mesh URL
+const upstreams = new Map();
+
+// msg_ids we have already relayed, used to stop frames bouncing between servers
+const seenFrames = new Map();
+
+let serverId = null;
+let onFrame = null;
+let createSyncRequest = null;
+let meshSecret = null;
+let nodeKey = null;
+let verifyCertificate = null;
+let stopped = false;
+
+/**
+ * Start federating with other NINE servers.
+ * `options.onFrame(frame, sourceUrl)` is called for every mesh_message received from an upstream.
+ * `options.createSyncRequest()` builds the summary sent after registering, so upstreams replay what we missed.
+ * `options.meshSecret` is presented when registering, for upstreams that require a join secret.
+ * `options.nodeKey` signs the registration, for upstreams that only admit allowed node keys.
+ * `options.verifyCertificate(url, fingerprint)` decides whether a wss:// upstream's self-signed
+ * certificate is trusted.
+ */
+export function startFederation(options) {
+  serverId = options.serverId;
+  onFrame = options.onFrame;
+  createSyncRequest = options.createSyncRequest;
+  meshSecret = options.meshSecret || null;
+  nodeKey = options.nodeKey || null;
+  verifyCertificate = options.verifyCertificate || null;
+  stopped = false;
+
+  (options.peers || []).forEach((url) => dialServer(url));
+}
+
+/**
+ * Dial another NINE server and register with it as a peer.
+ * Safe to call repeatedly for the same URL (e.g. from discovery).
+ */
+export function dialServer(url) {
+  if (stopped || !url || upstreams.has(url)) {
+    return;
+  }
+
+  const link = { url, ws: null, connected: false };
+  upstreams.set(url, link);
+  connectLink(link);
+}
+
+function connectLink(link) {
+  // NINE servers use self-signed certificates, checked against their pinned fingerprint below
+  const ws = new WebSocket(link.url, { rejectUnauthorized: false, maxPayload: MAX_FRAME_BYTES });
+  link.ws = ws;
+
+  ws.on('upgrade', (response) => {
+    const certificate = response.socket.getPeerCertificate?.();
+    if (certificate && verifyCertificate && !verifyCertificate(link.url, certificate.fingerprint256)) {
+      console.warn(`Federation link ${link.url} presented an unexpected certificate, not connecting`);
+      ws.terminate();
+    }
+  });
+
+  ws.on('open', () => {
+    link.connected = true;
+    console.log(`🔗 Federated with ${link.url}`);
+    ws.send(
+      JSON.stringify({
+        type: 'register',
+        peerId: serverId,
+        role: 'server',
+        ...(meshSecret ? { secret: meshSecret } : {}),
+        ...(nodeKey ? signRegistration(nodeKey, serverId) : {}),
+      })
+    );
+    if (createSyncRequest) {
+      sendFrame(ws, JSON.stringify(createSyncRequest())).catch(console.error);
+    }
+  });
+
+  ws.on('message', (data) => {
+    try {
+      let message = JSON.parse(data.toString());
+
+      if (isTransferFrame(message)) {
+        message = receiveTransferFrame(ws, message);
+        if (!message) {
+          return;
+        }
+      }
+
+      if (message.type === 'mesh_message' && message.envelope) {
+        if (message.fromPeer === serverId) {
+          return;
+        }
+        onFrame?.(message, link.url);
+      } else if (message.type === 'error') {
+        console.warn(`Federation link ${link.url} rejected a frame (${message.code}): ${message.message}`);
+      }
+    } catch (error) {
+      console.error('Error handling federated message:', error);
+    }
+  });
+
+  ws.on('close', () => {
+    link.connected = false;
+    dropTransfers(ws);
+    if (stopped || !upstreams.has(link.url)) {
+      return;
+    }
+    setTimeout(() => {
+      if (!stopped && upstreams.has(link.url)) {
+        connectLink(link);
+      }
+    }, RECONNECT_DELAY);
+  });
+
+  ws.on('error', (error) => {
+    console.error(`Federation link error (${link.url}):`, error.message);
+  });
+}
+
+/**
+ * Stop dialing a server, e.g. once discovery stops hearing from it.
+ */
+export function dropServer(url) {
+  const link = upstreams.get(url);
+  if (!link) {
+    return;
+  }
+  upstreams.delete(url);
+  link.ws?.close();
+}
+
+/**
+ * Send a mesh_message frame to every connected upstream except the one it came from.
+ */
+export function relayToUpstreams(frame, excludeUrl) {
+  const payload = JSON.stringify(frame);
+  upstreams.forEach((link, url) => {
+    if (url !== excludeUrl && link.connected && link.ws.readyState === WebSocket.OPEN) {
+      sendFrame(link.ws, payload).catch(console.error);
+    }
+  });
+}
+
+/**
+ * Record a frame as relayed. Returns false if it was already seen.
+ * Key envelopes share their msg_id with the message envelope, so the envelope type is part of the key.
+ */
+export function markFrameSeen(frame) {
+  const msgId = frame.envelope?.msg_id;
+  if (!msgId) {
+    return true;
+  }
+
+  const key = `${frame.envelopeType || 'message'}:${msgId}`;
+  if (seenFrames.has(key)) {
+    return false;
+  }
+
+  seenFrames.set(key, Date.now());
+  if (seenFrames.size > SEEN_LIMIT) {
+    seenFrames.delete(seenFrames.keys().next().value);
+  }
+  return true;
+}
+
+export function getUpstreams() {
+  return Array.from(upstreams.values()).map((link) => ({
+    url: link.url,
+    connected: link.connected,
+  }));
+}
+
+export function stopFederation() {
+  stopped = true;
+  upstreams.forEach((link) => link.ws?.close());
+  upstreams.clear();
+}
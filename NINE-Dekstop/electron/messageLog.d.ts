@@ -0,0 +1,37 @@
+export type StoreKind =
+  | 'broadcasts'
+  | 'messages'
+  | 'keys'
+  | 'decrypted'
+  | 'cases'
+  | 'relayMessages'
+  | 'relayKeys';
+
+export interface RecordQuery {
+  type?: string;
+  from?: string;
+  attachment?: string; // attachment_id of chunk envelopes
+  since?: string;
+  until?: string;
+  order?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface RecordPage<T> {
+  items: T[];
+  total: number;
+}
+
+export type MessageLogStats = Record<StoreKind, number> & { deadLines: number };
+
+export function openMessageLog(directory: string): void;
+export function closeMessageLog(): void;
+export function putRecord<T extends { msg_id: string }>(kind: StoreKind, record: T): void;
+export function getRecord<T = unknown>(kind: StoreKind, msgId: string): T | undefined;
+export function deleteRecord(kind: StoreKind, msgId: string): void;
+export function queryRecords<T = unknown>(kind: StoreKind, query?: RecordQuery): RecordPage<T>;
+export function clearMessageLog(): void;
+export function applyRetention(): void;
+export function compactMessageLog(): void;
+export function getMessageLogStats(): MessageLogStats;
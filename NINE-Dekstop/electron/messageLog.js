@@ -0,0 +1,325 @@
+import fs from 'fs';
+import path from 'path';
+
+// relayMessages/relayKeys hold what the mesh server relayed, for replay to late joiners
+const KINDS = ['broadcasts', 'messages', 'keys', 'decrypted', 'cases', 'relayMessages', 'relayKeys'];
+
+// Decrypted reports and their cases are the admin's record of what happened, so they are never expired
+const RETENTION = {
+  broadcasts: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxRecords: 50000 },
+  messages: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxRecords: 50000 },
+  keys: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxRecords: 50000 },
+  decrypted: null,
+  cases: null,
+  relayMessages: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxRecords: 50000 },
+  relayKeys: { maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxRecords: 50000 },
+};
+
+const RETENTION_INTERVAL = 60 * 60 * 1000;
+const MIN_DEAD_LINES_FOR_COMPACTION = 1000;
+
+const collections = new Map();
+
+let logPath = null;
+let deadLines = 0;
+let retentionTimer = null;
+
+/**
+ * Append-only log of envelopes, one JSON line per operation, with in-memory indexes
+ * by msg_id, type, sender, attachment and timestamp rebuilt on startup.
+ */
+export function openMessageLog(directory) {
+  fs.mkdirSync(directory, { recursive: true });
+  logPath = path.join(directory, 'messages.log');
+
+  KINDS.forEach((kind) => collections.set(kind, createCollection()));
+  deadLines = 0;
+
+  if (fs.existsSync(logPath)) {
+    const lines = repairTail(fs.readFileSync(logPath, 'utf8')).split('\n');
+    lines.forEach((line) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        applyOperation(JSON.parse(line));
+      } catch (error) {
+        // A torn write from a crash; the rest of the log is still usable
+        console.error('Skipping unreadable message log line');
+        deadLines++;
+      }
+    });
+  }
+
+  applyRetention();
+  retentionTimer = setInterval(applyRetention, RETENTION_INTERVAL);
+}
+
+/**
+ * A crash mid-append leaves the last line without its newline, and the next append would run
+ * on from it. Cut the line off if it is torn, or end it if it is whole. Returns the log as now on disk.
+ */
+function repairTail(content) {
+  if (!content || content.endsWith('\n')) {
+    return content;
+  }
+  const start = content.lastIndexOf('\n') + 1;
+  try {
+    JSON.parse(content.slice(start));
+    fs.appendFileSync(logPath, '\n');
+    return content + '\n';
+  } catch {
+    console.error('Dropping a torn write at the end of the message log');
+    fs.truncateSync(logPath, Buffer.byteLength(content.slice(0, start)));
+    return content.slice(0, start);
+  }
+}
+
+export function closeMessageLog() {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
+
+function createCollection() {
+  return {
+    records: new Map(),
+    byType: new Map(),
+    bySender: new Map(),
+    // Chunks of each attachment, so reassembly does not scan every stored chunk
+    byAttachment: new Map(),
+    // msg_ids ordered by timestamp, oldest first
+    timeline: [],
+  };
+}
+
+function getCollection(kind) {
+  const collection = collections.get(kind);
+  if (!collection) {
+    throw new Error(`Unknown message log kind: ${kind}`);
+  }
+  return collection;
+}
+
+function appendOperation(operation) {
+  fs.appendFileSync(logPath, JSON.stringify(operation) + '\n');
+}
+
+function applyOperation(operation) {
+  if (operation.op === 'put') {
+    indexRecord(operation.kind, operation.record, operation.at);
+  } else if (operation.op === 'delete') {
+    unindexRecord(operation.kind, operation.msgId);
+    deadLines += 2;
+  }
+}
+
+function indexRecord(kind, record, at) {
+  const collection = getCollection(kind);
+  if (collection.records.has(record.msg_id)) {
+    unindexRecord(kind, record.msg_id);
+    deadLines++;
+  }
+
+  // Key envelopes carry no timestamp of their own, and a peer's timestamp may not parse, so
+  // fall back to when we stored them. A NaN would break the timeline's ordering
+  const timestamp = record.timestamp ? new Date(record.timestamp).getTime() : NaN;
+  const entry = {
+    record,
+    ts: Number.isFinite(timestamp) ? timestamp : at,
+  };
+  collection.records.set(record.msg_id, entry);
+
+  if (record.type) {
+    addToIndex(collection.byType, record.type, record.msg_id);
+  }
+  if (record.from) {
+    addToIndex(collection.bySender, record.from, record.msg_id);
+  }
+  if (record.chunk?.attachment_id) {
+    addToIndex(collection.byAttachment, record.chunk.attachment_id, record.msg_id);
+  }
+
+  const position = timelineIndex(collection, entry.ts);
+  collection.timeline.splice(position, 0, record.msg_id);
+}
+
+function unindexRecord(kind, msgId) {
+  const collection = getCollection(kind);
+  const entry = collection.records.get(msgId);
+  if (!entry) {
+    return;
+  }
+
+  let position = timelineIndex(collection, entry.ts) - 1;
+  while (position >= 0 && collection.timeline[position] !== msgId) {
+    position--;
+  }
+  if (position >= 0) {
+    collection.timeline.splice(position, 1);
+  }
+
+  collection.records.delete(msgId);
+  if (entry.record.type) {
+    collection.byType.get(entry.record.type)?.delete(msgId);
+  }
+  if (entry.record.from) {
+    collection.bySender.get(entry.record.from)?.delete(msgId);
+  }
+  if (entry.record.chunk?.attachment_id) {
+    collection.byAttachment.get(entry.record.chunk.attachment_id)?.delete(msgId);
+  }
+}
+
+function addToIndex(index, key, msgId) {
+  if (!index.has(key)) {
+    index.set(key, new Set());
+  }
+  index.get(key).add(msgId);
+}
+
+// First timeline position whose timestamp is greater than `ts`
+function timelineIndex(collection, ts) {
+  let low = 0;
+  let high = collection.timeline.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (collection.records.get(collection.timeline[mid]).ts <= ts) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export function putRecord(kind, record) {
+  if (!record || !record.msg_id) {
+    throw new Error('Record must have a msg_id');
+  }
+  const operation = { op: 'put', kind, at: Date.now(), record };
+  getCollection(kind);
+  appendOperation(operation);
+  applyOperation(operation);
+}
+
+export function getRecord(kind, msgId) {
+  return getCollection(kind).records.get(msgId)?.record;
+}
+
+export function deleteRecord(kind, msgId) {
+  if (!getCollection(kind).records.has(msgId)) {
+    return;
+  }
+  const operation = { op: 'delete', kind, msgId };
+  appendOperation(operation);
+  applyOperation(operation);
+}
+
+/**
+ * Page through a collection.
+ * `query` accepts type, from, attachment (an attachment_id), since, until (ISO strings),
+ * order ('asc' | 'desc'), offset and limit.
+ */
+export function queryRecords(kind, query = {}) {
+  const collection = getCollection(kind);
+  const since = query.since ? new Date(query.since).getTime() : -Infinity;
+  const until = query.until ? new Date(query.until).getTime() : Infinity;
+
+  const indexes = [];
+  if (query.type) {
+    indexes.push(collection.byType.get(query.type) || new Set());
+  }
+  if (query.from) {
+    indexes.push(collection.bySender.get(query.from) || new Set());
+  }
+  if (query.attachment) {
+    indexes.push(collection.byAttachment.get(query.attachment) || new Set());
+  }
+
+  const start = timelineIndex(collection, since - 1);
+  const end = timelineIndex(collection, until);
+
+  const matches = [];
+  for (let i = start; i < end; i++) {
+    const msgId = collection.timeline[i];
+    if (indexes.every((index) => index.has(msgId))) {
+      matches.push(collection.records.get(msgId).record);
+    }
+  }
+
+  if (query.order !== 'asc') {
+    matches.reverse();
+  }
+
+  const offset = query.offset || 0;
+  const items = query.limit ? matches.slice(offset, offset + query.limit) : matches.slice(offset);
+
+  return { items, total: matches.length };
+}
+
+export function clearMessageLog() {
+  KINDS.forEach((kind) => collections.set(kind, createCollection()));
+  fs.writeFileSync(logPath, '');
+  deadLines = 0;
+}
+
+/**
+ * Drop expired records, then compact if the log is mostly dead lines.
+ */
+export function applyRetention() {
+  const now = Date.now();
+
+  KINDS.forEach((kind) => {
+    const policy = RETENTION[kind];
+    if (!policy) {
+      return;
+    }
+    const collection = getCollection(kind);
+    const cutoff = now - policy.maxAgeMs;
+
+    const expired = [];
+    for (const msgId of collection.timeline) {
+      const overLimit = collection.timeline.length - expired.length > policy.maxRecords;
+      if (collection.records.get(msgId).ts >= cutoff && !overLimit) {
+        break;
+      }
+      expired.push(msgId);
+    }
+    expired.forEach((msgId) => deleteRecord(kind, msgId));
+  });
+
+  const liveLines = KINDS.reduce((sum, kind) => sum + getCollection(kind).records.size, 0);
+  if (deadLines >= MIN_DEAD_LINES_FOR_COMPACTION && deadLines > liveLines) {
+    compactMessageLog();
+  }
+}
+
+/**
+ * Rewrite the log with one line per live record.
+ */
+export function compactMessageLog() {
+  const tempPath = `${logPath}.tmp`;
+  const lines = [];
+
+  KINDS.forEach((kind) => {
+    const collection = getCollection(kind);
+    collection.timeline.forEach((msgId) => {
+      const entry = collection.records.get(msgId);
+      lines.push(JSON.stringify({ op: 'put', kind, at: entry.ts, record: entry.record }));
+    });
+  });
+
+  fs.writeFileSync(tempPath, lines.length ? lines.join('\n') + '\n' : '');
+  fs.renameSync(tempPath, logPath);
+  deadLines = 0;
+}
+
+export function getMessageLogStats() {
+  const stats = { deadLines };
+  KINDS.forEach((kind) => {
+    stats[kind] = getCollection(kind).records.size;
+  });
+  return stats;
+}
@@ -2,7 +2,25 @@ import { contextBridge, ipcRenderer } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
   getServerUrl: () => ipcRenderer.invoke('get-server-url'),
+  getMeshSecret: () => ipcRenderer.invoke('get-mesh-secret'),
   getGatewayUrl: () => ipcRenderer.invoke('get-gateway-url'),
+  getMapTiles: () => ipcRenderer.invoke('get-map-tiles'),
+  getServerCertificate: () => ipcRenderer.invoke('get-server-certificate'),
+  checkServerCertificate: (url) => ipcRenderer.invoke('check-server-certificate', url),
+  getPinnedServers: () => ipcRenderer.invoke('get-pinned-servers'),
+  forgetPinnedServer: (host) => ipcRenderer.invoke('forget-pinned-server', host),
+  publishAdminKeys: (statements) => ipcRenderer.invoke('publish-admin-keys', statements),
+  getNearbyServers: () => ipcRenderer.invoke('get-nearby-servers'),
+  onNearbyServersUpdate: (callback) => {
+    ipcRenderer.on('nearby-servers-update', (event, servers) => callback(servers));
+  },
+  store: {
+    put: (kind, record) => ipcRenderer.invoke('store-put', kind, record),
+    get: (kind, msgId) => ipcRenderer.invoke('store-get', kind, msgId),
+    query: (kind, query) => ipcRenderer.invoke('store-query', kind, query),
+    clear: () => ipcRenderer.invoke('store-clear'),
+    stats: () => ipcRenderer.invoke('store-stats'),
+  },
   onPeerUpdate: (callback) => {
     ipcRenderer.on('peer-update', (event, data) => callback(data));
   },
@@ -0,0 +1,8 @@
+import type { MeshMessageFrame, SyncRequestFrame } from '../relay/src/frames.js';
+
+export const SYNC_WINDOW_MS: number;
+export const SYNC_MAX_IDS: number;
+
+export function storeRelayedFrame(frame: MeshMessageFrame): void;
+export function createSyncRequest(): SyncRequestFrame;
+export function getMissingFrames(request: SyncRequestFrame, fromPeer: string): MeshMessageFrame[];
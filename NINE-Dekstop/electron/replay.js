@@ -0,0 +1,70 @@
+import { putRecord, queryRecords } from './messageLog.js';
+
+// How far back a sync handshake looks for envelopes the other side is missing
+export const SYNC_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Held msg_ids listed per kind, newest first, so a sync_request stays under MAX_FRAME_BYTES.
+// Older envelopes the other side already has may be replayed again and are dropped as duplicates
+export const SYNC_MAX_IDS = 500;
+
+/**
+ * Keep a copy of every relayed envelope so peers that join later can catch up.
+ */
+export function storeRelayedFrame(frame) {
+  if (!frame.envelope?.msg_id) {
+    return;
+  }
+  try {
+    putRecord(frame.envelopeType === 'key' ? 'relayKeys' : 'relayMessages', frame.envelope);
+  } catch (error) {
+    console.error('Failed to store relayed envelope:', error);
+  }
+}
+
+/**
+ * Summary of what this server holds, sent when it registers with another server.
+ */
+export function createSyncRequest() {
+  const since = new Date(Date.now() - SYNC_WINDOW_MS).toISOString();
+  return {
+    type: 'sync_request',
+    since,
+    messageIds: queryRecords('relayMessages', { since, limit: SYNC_MAX_IDS }).items.map((envelope) => envelope.msg_id),
+    keyIds: queryRecords('relayKeys', { since, limit: SYNC_MAX_IDS }).items.map((envelope) => envelope.msg_id),
+  };
+}
+
+/**
+ * Build the mesh_message frames a peer is missing, given its sync_request.
+ * Message envelopes that have used up their TTL are not replayed.
+ */
+export function getMissingFrames(request, fromPeer) {
+  const windowStart = Date.now() - SYNC_WINDOW_MS;
+  const requested = request.since ? new Date(request.since).getTime() : windowStart;
+  const since = new Date(Math.max(requested || windowStart, windowStart)).toISOString();
+
+  const heldMessages = new Set(request.messageIds || []);
+  const heldKeys = new Set(request.keyIds || []);
+
+  const messages = queryRecords('relayMessages', { since, order: 'asc' })
+    .items.filter((envelope) => !heldMessages.has(envelope.msg_id) && envelope.ttl > 0)
+    .map((envelope) => ({
+      type: 'mesh_message',
+      envelope,
+      fromPeer,
+      replayed: true,
+    }));
+
+  // Keys go after their messages, matching the order senders use
+  const keys = queryRecords('relayKeys', { since, order: 'asc' })
+    .items.filter((envelope) => !heldKeys.has(envelope.msg_id))
+    .map((envelope) => ({
+      type: 'mesh_message',
+      envelope,
+      envelopeType: 'key',
+      fromPeer,
+      replayed: true,
+    }));
+
+  return [...messages, ...keys];
+}
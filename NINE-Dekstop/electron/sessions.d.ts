@@ -0,0 +1,51 @@
+import type { IncomingMessage } from 'http';
+import type { WebSocket } from 'ws';
+
+export interface Session {
+  ws: WebSocket;
+  peerId: string | null;
+  role: 'client' | 'server';
+  port: number | null;
+  address: string | null;
+  connectedAt: number;
+  lastSeen: number;
+  alive: boolean;
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+export interface PeerStatus {
+  peerId: string;
+  role: 'client' | 'server';
+  port: number | null;
+  address: string | null;
+  connectedAt: string;
+  lastSeen: string;
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+export interface SessionStatus {
+  connections: number;
+  heartbeatIntervalMs: number;
+  peers: PeerStatus[];
+}
+
+export function openSession(ws: WebSocket, req: IncomingMessage): Session;
+export function recordIncoming(session: Session, data: { length: number }): void;
+export function registerPeer(
+  session: Session,
+  peerId: string,
+  info?: { role?: 'client' | 'server'; port?: number }
+): boolean;
+export function closeSession(session: Session): string | null;
+export function sendToSession(session: Session, data: string): Promise<void>;
+export function sendError(session: Session, code: string, message: string, details?: object): void;
+export function getPeerSessions(): Session[];
+export function startHeartbeat(): void;
+export function stopHeartbeat(): void;
+export function getSessionStatus(): SessionStatus;
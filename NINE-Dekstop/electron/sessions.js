@@ -0,0 +1,153 @@
+import { sendFrame } from './transfer.js';
+
+const HEARTBEAT_INTERVAL = 15000;
+const DUPLICATE_PEER_CODE = 4009;
+
+// Every open mesh connection, keyed by its socket
+const sessions = new Map();
+
+// Registered peers, keyed by peer ID, pointing at the session that holds the ID
+const peers = new Map();
+
+let heartbeatTimer = null;
+
+/**
+ * Start tracking a new mesh connection. The session has no peer ID until its first
+ * `register` frame is accepted by `registerPeer`.
+ */
+export function openSession(ws, req) {
+  const now = Date.now();
+  const session = {
+    ws,
+    peerId: null,
+    role: 'client',
+    port: null,
+    address: req.socket.remoteAddress || null,
+    connectedAt: now,
+    lastSeen: now,
+    alive: true,
+    messagesIn: 0,
+    messagesOut: 0,
+    bytesIn: 0,
+    bytesOut: 0,
+  };
+  sessions.set(ws, session);
+
+  ws.on('pong', () => touch(session));
+  return session;
+}
+
+// Count a raw frame received on the session
+export function recordIncoming(session, data) {
+  session.messagesIn++;
+  session.bytesIn += data.length;
+  touch(session);
+}
+
+/**
+ * Give a session a peer ID. While another connection still holds the ID the newcomer is
+ * closed instead of taking it over; the holder keeps it until it disconnects or misses a
+ * heartbeat, after which the newcomer's reconnect succeeds.
+ */
+export function registerPeer(session, peerId, info = {}) {
+  const holder = peers.get(peerId);
+  if (holder && holder !== session) {
+    console.warn(`Rejected a second connection for peer ${peerId}`);
+    sendError(session, 'duplicate_peer', `Peer ID ${peerId} is already connected`);
+    session.ws.close(DUPLICATE_PEER_CODE, 'Peer ID already connected');
+    return false;
+  }
+
+  // A connection that registers again under a new ID gives up the old one
+  if (session.peerId && session.peerId !== peerId) {
+    peers.delete(session.peerId);
+  }
+  session.peerId = peerId;
+  session.role = info.role || 'client';
+  session.port = info.port || null;
+  peers.set(peerId, session);
+  return true;
+}
+
+/**
+ * Stop tracking a closed connection. Returns the peer ID it held, or null when it never
+ * registered (or was turned away as a duplicate).
+ */
+export function closeSession(session) {
+  sessions.delete(session.ws);
+  if (session.peerId && peers.get(session.peerId) === session) {
+    peers.delete(session.peerId);
+    return session.peerId;
+  }
+  return null;
+}
+
+// Send a serialized frame to one session, counting it
+export function sendToSession(session, data) {
+  session.messagesOut++;
+  session.bytesOut += data.length;
+  return sendFrame(session.ws, data);
+}
+
+/**
+ * Tell a session why one of its frames was rejected. `code` is machine-readable
+ * (e.g. rate_limited, too_large, unauthorized); `details` can name the frame's msg_id.
+ */
+export function sendError(session, code, message, details = {}) {
+  sendToSession(session, JSON.stringify({ type: 'error', code, message, ...details })).catch(console.error);
+}
+
+export function getPeerSessions() {
+  return Array.from(peers.values());
+}
+
+/**
+ * Ping every connection each interval. A connection that has not answered the previous
+ * ping by the next one is terminated, which runs its normal close handling.
+ */
+export function startHeartbeat() {
+  if (heartbeatTimer) {
+    return;
+  }
+  heartbeatTimer = setInterval(() => {
+    sessions.forEach((session) => {
+      if (!session.alive) {
+        console.warn(`Peer ${session.peerId || session.address} missed a heartbeat, dropping it`);
+        session.ws.terminate();
+        return;
+      }
+      session.alive = false;
+      session.ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+}
+
+export function stopHeartbeat() {
+  clearInterval(heartbeatTimer);
+  heartbeatTimer = null;
+}
+
+// Connection and per-peer counters for the /status endpoint
+export function getSessionStatus() {
+  return {
+    connections: sessions.size,
+    heartbeatIntervalMs: HEARTBEAT_INTERVAL,
+    peers: getPeerSessions().map((session) => ({
+      peerId: session.peerId,
+      role: session.role,
+      port: session.port,
+      address: session.address,
+      connectedAt: new Date(session.connectedAt).toISOString(),
+      lastSeen: new Date(session.lastSeen).toISOString(),
+      messagesIn: session.messagesIn,
+      messagesOut: session.messagesOut,
+      bytesIn: session.bytesIn,
+      bytesOut: session.bytesOut,
+    })),
+  };
+}
+
+function touch(session) {
+  session.alive = true;
+  session.lastSeen = Date.now();
+}
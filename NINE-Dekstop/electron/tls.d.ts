@@ -0,0 +1,23 @@
+export interface TlsCertificate {
+  key: string;
+  cert: string;
+  fingerprint: string; // SHA-256, colon-separated hex
+}
+
+export type PinStatus = 'pinned' | 'match' | 'mismatch';
+
+export interface Pin {
+  host: string; // host:port
+  fingerprint: string;
+}
+
+export function loadOrCreateCertificate(directory: string): Promise<TlsCertificate>;
+export function getFingerprint(certPem: string | Buffer): string;
+export function getLanAddresses(): string[];
+export function probeFingerprint(url: string): Promise<string>;
+export function openPinStore(directory: string): void;
+export function checkPin(host: string, fingerprint: string): PinStatus;
+export function getPins(): Pin[];
+export function forgetPin(host: string): void;
+export function approveCertificate(hostname: string, fingerprint: string): void;
+export function isApproved(hostname: string, fingerprint: string): boolean;
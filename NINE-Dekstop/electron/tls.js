@@ -0,0 +1,148 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { X509Certificate } from 'crypto';
+import { generate } from 'selfsigned';
+
+const CERT_VALIDITY_YEARS = 10;
+
+// Fingerprints of other NINE servers, pinned the first time we connect, keyed by host:port
+let pins = {};
+let pinsPath = null;
+
+// Fingerprints the renderer may connect to, keyed by hostname (what Chromium asks about)
+const approved = new Map();
+
+/**
+ * Load this server's certificate from `directory`, generating a self-signed one on first run.
+ * The key never leaves the device; other devices trust the certificate by its fingerprint.
+ */
+export async function loadOrCreateCertificate(directory) {
+  const keyPath = path.join(directory, 'key.pem');
+  const certPath = path.join(directory, 'cert.pem');
+
+  if (!fs.existsSync(keyPath) || !fs.existsSync(certPath)) {
+    const notAfterDate = new Date();
+    notAfterDate.setFullYear(notAfterDate.getFullYear() + CERT_VALIDITY_YEARS);
+    const generated = await generate([{ name: 'commonName', value: 'NINE mesh server' }], {
+      keyType: 'ec',
+      curve: 'P-256',
+      notAfterDate,
+      extensions: [
+        { name: 'basicConstraints', cA: false },
+        { name: 'extKeyUsage', serverAuth: true },
+        {
+          name: 'subjectAltName',
+          altNames: [
+            { type: 2, value: 'localhost' },
+            { type: 7, ip: '127.0.0.1' },
+            ...getLanAddresses().map((ip) => ({ type: 7, ip })),
+          ],
+        },
+      ],
+    });
+
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(keyPath, generated.private, { mode: 0o600 });
+    fs.writeFileSync(certPath, generated.cert);
+    console.log('🔐 Generated a self-signed TLS certificate');
+  }
+
+  const cert = fs.readFileSync(certPath, 'utf8');
+  return { key: fs.readFileSync(keyPath, 'utf8'), cert, fingerprint: getFingerprint(cert) };
+}
+
+// SHA-256 of the certificate, as colon-separated hex like browsers show it
+export function getFingerprint(certPem) {
+  return new X509Certificate(certPem).fingerprint256;
+}
+
+// IPv4 addresses other devices on the LAN can reach this machine on
+export function getLanAddresses() {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter((address) => address && address.family === 'IPv4' && !address.internal)
+    .map((address) => address.address);
+}
+
+/**
+ * Fetch the certificate fingerprint a TLS server presents, without trusting it.
+ * `url` is a wss:// or https:// URL.
+ */
+export function probeFingerprint(url) {
+  const { hostname, port } = new URL(url);
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect(
+      { host: hostname, port: Number(port) || 443, servername: hostname, rejectUnauthorized: false },
+      () => {
+        const certificate = socket.getPeerCertificate();
+        socket.end();
+        if (certificate?.fingerprint256) {
+          resolve(certificate.fingerprint256);
+        } else {
+          reject(new Error(`${url} presented no certificate`));
+        }
+      }
+    );
+    socket.setTimeout(5000, () => socket.destroy(new Error(`Timed out probing ${url}`)));
+    socket.on('error', reject);
+  });
+}
+
+export function openPinStore(directory) {
+  pinsPath = path.join(directory, 'pins.json');
+  try {
+    pins = fs.existsSync(pinsPath) ? JSON.parse(fs.readFileSync(pinsPath, 'utf8')) : {};
+  } catch (error) {
+    console.error('Failed to load pinned server certificates:', error);
+    pins = {};
+  }
+}
+
+/**
+ * Trust on first use: the first fingerprint seen for `host` (host:port) is pinned.
+ * Returns 'pinned' for a first contact, 'match' when it matches the pin, otherwise 'mismatch'.
+ */
+export function checkPin(host, fingerprint) {
+  if (!pins[host]) {
+    pins[host] = fingerprint;
+    savePins();
+    console.log(`📌 Pinned the certificate of ${host}: ${fingerprint}`);
+    return 'pinned';
+  }
+  return pins[host] === fingerprint ? 'match' : 'mismatch';
+}
+
+export function getPins() {
+  return Object.entries(pins).map(([host, fingerprint]) => ({ host, fingerprint }));
+}
+
+// After a server legitimately replaced its certificate, the next contact pins the new one
+export function forgetPin(host) {
+  delete pins[host];
+  savePins();
+}
+
+// Let the renderer's connections to `hostname` accept a certificate that passed the pin check
+export function approveCertificate(hostname, fingerprint) {
+  const fingerprints = approved.get(hostname) || new Set();
+  fingerprints.add(fingerprint);
+  approved.set(hostname, fingerprints);
+}
+
+export function isApproved(hostname, fingerprint) {
+  return approved.get(hostname)?.has(fingerprint) || false;
+}
+
+function savePins() {
+  if (!pinsPath) {
+    return;
+  }
+  try {
+    fs.mkdirSync(path.dirname(pinsPath), { recursive: true });
+    fs.writeFileSync(pinsPath, JSON.stringify(pins, null, 2));
+  } catch (error) {
+    console.error('Failed to save pinned server certificates:', error);
+  }
+}
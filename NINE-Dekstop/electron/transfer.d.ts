@@ -0,0 +1,7 @@
+import type { WebSocket } from 'ws';
+
+export function isTransferFrame(message: { type?: unknown }): boolean;
+export function sendFrame(ws: WebSocket, data: string): Promise<void>;
+// The reassembled frame, parsed but not yet checked, once its last chunk arrives
+export function receiveTransferFrame(ws: WebSocket, message: object): unknown;
+export function dropTransfers(ws: WebSocket): void;
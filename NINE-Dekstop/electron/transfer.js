@@ -0,0 +1,224 @@
+import { WebSocket } from 'ws';
+import { createHash, randomUUID } from 'crypto';
+import { MAX_FRAME_BYTES } from './accessControl.js';
+
+// Same wire protocol as the renderer's ChunkedTransfer (src/services/chunkedTransfer.ts)
+const THRESHOLD = 64 * 1024;
+const CHUNK_SIZE = 16 * 1024;
+const REQUEST_AFTER_MS = 5000;
+const MAX_REQUESTS = 3;
+const OUTGOING_TTL_MS = 60 * 1000;
+const MAX_BUFFERED = 256 * 1024;
+
+// Transfers one link may have in flight, and how long one may take before it is dropped
+const MAX_TRANSFERS_PER_LINK = 4;
+const TRANSFER_TIMEOUT_MS = 30 * 1000;
+
+// Transfers being reassembled, keyed by transfer_id
+const incoming = new Map();
+
+// Chunks of recently sent transfers, kept so receivers can ask for them again
+const outgoing = new Map();
+
+function hash(data) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function chunkFrame(transferId, index, data) {
+  return JSON.stringify({ type: 'chunk', transfer_id: transferId, index, data });
+}
+
+export function isTransferFrame(message) {
+  return (
+    message.type === 'chunk_manifest' ||
+    message.type === 'chunk' ||
+    message.type === 'chunk_request'
+  );
+}
+
+/**
+ * Send a serialized frame over a WebSocket. Frames above the threshold go out as a
+ * chunk_manifest followed by numbered chunks, paced against the socket's buffer so
+ * other frames are not stuck behind them.
+ */
+export async function sendFrame(ws, data) {
+  if (ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  if (data.length <= THRESHOLD) {
+    ws.send(data);
+    return;
+  }
+
+  const transferId = randomUUID();
+  const chunks = [];
+  for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+    chunks.push(data.slice(offset, offset + CHUNK_SIZE));
+  }
+  outgoing.set(transferId, chunks);
+  setTimeout(() => outgoing.delete(transferId), OUTGOING_TTL_MS);
+
+  ws.send(
+    JSON.stringify({
+      type: 'chunk_manifest',
+      transfer_id: transferId,
+      total: chunks.length,
+      size: data.length,
+      hash: hash(data),
+    })
+  );
+
+  for (let index = 0; index < chunks.length; index++) {
+    while (ws.bufferedAmount > MAX_BUFFERED && ws.readyState === WebSocket.OPEN) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    ws.send(chunkFrame(transferId, index, chunks[index]));
+  }
+}
+
+/**
+ * Handle a chunk_manifest, chunk or chunk_request frame received on `ws`.
+ * Returns the reassembled frame once every chunk has arrived and matches the manifest, otherwise null.
+ * Manifests above MAX_FRAME_BYTES, oversized chunks and transfers beyond the per-link limit are
+ * dropped before anything is buffered.
+ */
+export function receiveTransferFrame(ws, message) {
+  if (message.type === 'chunk_request') {
+    const chunks = outgoing.get(message.transfer_id);
+    if (chunks && ws.readyState === WebSocket.OPEN) {
+      (message.missing || []).forEach((index) => {
+        if (chunks[index] !== undefined) {
+          ws.send(chunkFrame(message.transfer_id, index, chunks[index]));
+        }
+      });
+    }
+    return null;
+  }
+
+  if (message.type === 'chunk_manifest') {
+    if (incoming.has(message.transfer_id)) {
+      return null;
+    }
+    const refused = checkManifest(ws, message);
+    if (refused) {
+      console.warn(`Refused transfer ${message.transfer_id}: ${refused}`);
+      return null;
+    }
+    const transfer = {
+      ws,
+      manifest: message,
+      chunks: new Array(message.total),
+      received: 0,
+      requests: 0,
+      timer: null,
+      deadline: setTimeout(() => {
+        if (incoming.get(message.transfer_id) === transfer) {
+          console.warn(`Transfer ${message.transfer_id} took too long, dropping it`);
+          forget(message.transfer_id, transfer);
+        }
+      }, TRANSFER_TIMEOUT_MS),
+    };
+    incoming.set(message.transfer_id, transfer);
+    scheduleRequest(transfer);
+    return null;
+  }
+
+  const transfer = incoming.get(message.transfer_id);
+  if (
+    !transfer ||
+    transfer.ws !== ws ||
+    !Number.isInteger(message.index) ||
+    message.index < 0 ||
+    message.index >= transfer.manifest.total ||
+    transfer.chunks[message.index] !== undefined
+  ) {
+    return null;
+  }
+  if (typeof message.data !== 'string' || message.data.length > CHUNK_SIZE) {
+    console.warn(`Dropping transfer ${message.transfer_id} with an oversized chunk`);
+    forget(message.transfer_id, transfer);
+    return null;
+  }
+
+  transfer.chunks[message.index] = message.data;
+  transfer.received++;
+  clearTimeout(transfer.timer);
+
+  if (transfer.received < transfer.manifest.total) {
+    scheduleRequest(transfer);
+    return null;
+  }
+
+  forget(message.transfer_id, transfer);
+  const data = transfer.chunks.join('');
+  if (data.length !== transfer.manifest.size || hash(data) !== transfer.manifest.hash) {
+    console.warn(`Dropping transfer ${message.transfer_id} that does not match its manifest`);
+    return null;
+  }
+  return JSON.parse(data);
+}
+
+/**
+ * Forget the transfers arriving on a link that has closed.
+ */
+export function dropTransfers(ws) {
+  incoming.forEach((transfer, transferId) => {
+    if (transfer.ws === ws) {
+      forget(transferId, transfer);
+    }
+  });
+}
+
+// Returns why a chunk_manifest is refused, or null when its transfer may start
+function checkManifest(ws, manifest) {
+  const { size, total } = manifest;
+  if (!Number.isInteger(size) || !Number.isInteger(total) || size <= 0 || total !== Math.ceil(size / CHUNK_SIZE)) {
+    return 'malformed manifest';
+  }
+  if (size > MAX_FRAME_BYTES) {
+    return `frames may be at most ${MAX_FRAME_BYTES} bytes, got ${size}`;
+  }
+  let inFlight = 0;
+  incoming.forEach((transfer) => {
+    if (transfer.ws === ws) {
+      inFlight++;
+    }
+  });
+  return inFlight >= MAX_TRANSFERS_PER_LINK ? 'too many transfers in flight on this link' : null;
+}
+
+function forget(transferId, transfer) {
+  clearTimeout(transfer.timer);
+  clearTimeout(transfer.deadline);
+  incoming.delete(transferId);
+}
+
+// Ask again for missing chunks after a quiet period, giving up after a few attempts
+function scheduleRequest(transfer) {
+  const transferId = transfer.manifest.transfer_id;
+  transfer.timer = setTimeout(() => {
+    if (incoming.get(transferId) !== transfer) {
+      return;
+    }
+    if (transfer.requests >= MAX_REQUESTS || transfer.ws.readyState !== WebSocket.OPEN) {
+      console.warn(
+        `Transfer ${transferId} timed out with ${transfer.received}/${transfer.manifest.total} chunks`
+      );
+      forget(transferId, transfer);
+      return;
+    }
+
+    const missing = [];
+    for (let index = 0; index < transfer.manifest.total; index++) {
+      if (transfer.chunks[index] === undefined) {
+        missing.push(index);
+      }
+    }
+    transfer.ws.send(JSON.stringify({ type: 'chunk_request', transfer_id: transferId, missing }));
+    transfer.requests++;
+    scheduleRequest(transfer);
+  }, REQUEST_AFTER_MS);
+}
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { openMessageLog, closeMessageLog } from '../../electron/messageLog.js';
+import { openPinStore } from '../../electron/tls.js';
+import { readRelayConfig } from './config.js';
+import { startRelay } from './relay.js';
+
+const USAGE = `Usage: nine-relay [options]
+
+Runs a headless NINE relay: the mesh, the PWA gateway, federation and LAN discovery.
+
+Options:
+  --port <port>     Port to listen on (NINE_PORT, default 3000)
+  --data <dir>      Where the certificate, pinned servers and relayed messages are kept
+                    (NINE_DATA_DIR, default ~/.nine-relay)
+  --peer <url>      Another NINE server to federate with, e.g. wss://192.168.1.20:3000/mesh.
+                    Repeatable, added to NINE_PEERS
+  --static <dir>    Also serve a web build of the app, e.g. dist
+  --tiles <dir>     A z/x/y PNG tile set for the incident map (NINE_TILES_DIR, default <data>/tiles)
+  --no-tls          Serve plain HTTP and WS (NINE_TLS=0)
+  --no-discovery    Do not announce this relay or look for others on the LAN
+  -h, --help        Show this help
+
+The join policy and CORS come from NINE_MESH_SECRET, NINE_ALLOWED_NODES and NINE_ALLOWED_ORIGINS.`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      data: { type: 'string' },
+      peer: { type: 'string', multiple: true },
+      static: { type: 'string' },
+      tiles: { type: 'string' },
+      'no-tls': { type: 'boolean' },
+      'no-discovery': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = readRelayConfig();
+  const port = values.port ? Number(values.port) : config.port;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+  const dataDir = path.resolve(values.data || process.env.NINE_DATA_DIR || path.join(os.homedir(), '.nine-relay'));
+
+  openMessageLog(path.join(dataDir, 'store'));
+  openPinStore(path.join(dataDir, 'tls'));
+
+  const relay = await startRelay({
+    ...config,
+    port,
+    tls: config.tls && !values['no-tls'],
+    peers: [...config.peers, ...(values.peer || [])],
+    dataDir,
+    staticDir: values.static && path.resolve(values.static),
+    tilesDir: values.tiles ? path.resolve(values.tiles) : config.tilesDir,
+    discovery: !values['no-discovery'],
+  });
+
+  const shutdown = () => {
+    console.log('Stopping the relay');
+    relay
+      .stop()
+      .catch(console.error)
+      .finally(() => {
+        closeMessageLog();
+        process.exit(0);
+      });
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
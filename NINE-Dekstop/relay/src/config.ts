@@ -0,0 +1,37 @@
+export interface RelayConfig {
+  port: number;
+  // HTTPS/WSS with a self-signed certificate unless NINE_TLS=0
+  tls: boolean;
+  // Other NINE servers to federate with, e.g. wss://192.168.1.20:3000/mesh
+  peers: string[];
+  // Who may join the mesh: peers presenting the secret, or nodes whose signing public key is
+  // listed in allowedNodes. With neither set the mesh is open
+  meshSecret: string | null;
+  allowedNodes: string[];
+  // Web origins allowed to call the HTTP endpoints cross-origin; the gateway page itself is same-origin
+  allowedOrigins: string[];
+  // A z/x/y PNG tile set for the incident map, served at /map/tiles (default <dataDir>/tiles)
+  tilesDir: string | null;
+}
+
+export const DEFAULT_PORT = 3000;
+
+function listFromEnv(env: NodeJS.ProcessEnv, name: string): string[] {
+  return (env[name] || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// The relay settings both the desktop app and nine-relay take from NINE_* environment variables
+export function readRelayConfig(env: NodeJS.ProcessEnv = process.env): RelayConfig {
+  return {
+    port: Number(env.NINE_PORT) || DEFAULT_PORT,
+    tls: env.NINE_TLS !== '0',
+    peers: listFromEnv(env, 'NINE_PEERS'),
+    meshSecret: env.NINE_MESH_SECRET || null,
+    allowedNodes: listFromEnv(env, 'NINE_ALLOWED_NODES'),
+    allowedOrigins: listFromEnv(env, 'NINE_ALLOWED_ORIGINS'),
+    tilesDir: env.NINE_TILES_DIR || null,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Frames exchanged over the /mesh WebSocket. Peers (desktop nodes, browsers and other
+ * servers) send register, mesh_message and sync_request; the relay answers with the rest.
+ * Frames larger than the transfer threshold travel in chunks and are typed once reassembled.
+ */
+
+// Relays only look at the routing fields; the rest of an envelope passes through untouched
+export interface RelayEnvelope {
+  msg_id: string;
+  type?: string;
+  from?: string;
+  to?: string;
+  timestamp?: string;
+  ttl?: number;
+  in_reply_to?: string;
+  [field: string]: unknown;
+}
+
+export interface RegisterFrame {
+  type: 'register';
+  peerId: string;
+  role?: 'client' | 'server';
+  port?: number;
+  // A node proves it holds an allowed node key by signing "nine-register:<peerId>:<timestamp>"
+  publicKey?: string;
+  timestamp?: string;
+  signature?: string;
+  secret?: string;
+}
+
+export interface PeerListFrame {
+  type: 'peer_list';
+  peers: string[];
+}
+
+export interface PeerConnectedFrame {
+  type: 'peer_connected';
+  peerId: string;
+}
+
+export interface PeerDisconnectedFrame {
+  type: 'peer_disconnected';
+  peerId: string;
+}
+
+// Key envelopes share their msg_id with the message they open, so they are flagged separately
+export interface MeshMessageFrame {
+  type: 'mesh_message';
+  envelope: RelayEnvelope;
+  envelopeType?: 'key';
+  fromPeer?: string;
+  replayed?: boolean;
+}
+
+export interface MeshAckFrame {
+  type: 'mesh_ack';
+  msg_id: string;
+}
+
+// What a late joiner already holds, so the relay only replays what it missed
+export interface SyncRequestFrame {
+  type: 'sync_request';
+  since?: string;
+  messageIds?: string[];
+  keyIds?: string[];
+}
+
+export type ErrorCode =
+  | 'not_registered'
+  | 'unauthorized'
+  | 'duplicate_peer'
+  | 'rate_limited'
+  | 'too_large';
+
+export interface ErrorFrame {
+  type: 'error';
+  code: ErrorCode;
+  message: string;
+  msg_id?: string;
+}
+
+export type PeerFrame = RegisterFrame | MeshMessageFrame | SyncRequestFrame;
+
+export type RelayFrame =
+  | PeerListFrame
+  | PeerConnectedFrame
+  | PeerDisconnectedFrame
+  | MeshMessageFrame
+  | MeshAckFrame
+  | ErrorFrame;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(isString));
+
+/**
+ * Narrow a parsed frame from a peer to one the relay handles. Returns null for anything
+ * malformed or of a type the relay does not act on.
+ */
+export function parsePeerFrame(message: unknown): PeerFrame | null {
+  if (!message || typeof message !== 'object') {
+    return null;
+  }
+  const frame = message as Record<string, unknown>;
+
+  switch (frame.type) {
+    case 'register':
+      return isString(frame.peerId) && frame.peerId ? (frame as unknown as RegisterFrame) : null;
+    case 'mesh_message': {
+      const envelope = frame.envelope as RelayEnvelope | undefined;
+      return envelope && typeof envelope === 'object' && isString(envelope.msg_id)
+        ? (frame as unknown as MeshMessageFrame)
+        : null;
+    }
+    case 'sync_request':
+      return isStringList(frame.messageIds) && isStringList(frame.keyIds)
+        ? (frame as unknown as SyncRequestFrame)
+        : null;
+    default:
+      return null;
+  }
+}
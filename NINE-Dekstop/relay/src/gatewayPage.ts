@@ -0,0 +1,1057 @@
+// The PWA gateway: a self-contained page that encrypts reports in the browser and submits them
+// to /gateway/submit. It is served as one string, so it must not contain backticks or ${.
+
+export function getGatewayHTML(): string {
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>NINE Gateway - Submit Alert</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 20px;
+    }
+    .container {
+      background: white;
+      border-radius: 12px;
+      padding: 32px;
+      max-width: 500px;
+      width: 100%;
+      box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+    }
+    h1 {
+      color: #333;
+      margin-bottom: 8px;
+      font-size: 24px;
+    }
+    .subtitle {
+      color: #666;
+      margin-bottom: 24px;
+      font-size: 14px;
+    }
+    .form-group {
+      margin-bottom: 20px;
+    }
+    label {
+      display: block;
+      margin-bottom: 6px;
+      color: #333;
+      font-weight: 500;
+      font-size: 14px;
+    }
+    input, textarea, select {
+      width: 100%;
+      padding: 12px;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      font-size: 14px;
+      font-family: inherit;
+      transition: border-color 0.2s;
+    }
+    input:focus, textarea:focus, select:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+    textarea {
+      min-height: 100px;
+      resize: vertical;
+    }
+    button {
+      width: 100%;
+      padding: 14px;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      border: none;
+      border-radius: 8px;
+      font-size: 16px;
+      font-weight: 600;
+      cursor: pointer;
+      transition: transform 0.2s, box-shadow 0.2s;
+    }
+    button:hover {
+      transform: translateY(-2px);
+      box-shadow: 0 4px 12px rgba(102, 126, 234, 0.4);
+    }
+    button:disabled {
+      opacity: 0.6;
+      cursor: not-allowed;
+      transform: none;
+    }
+    .status {
+      margin-top: 16px;
+      padding: 12px;
+      border-radius: 8px;
+      font-size: 14px;
+      text-align: center;
+    }
+    .status.success {
+      background: #d4edda;
+      color: #155724;
+      border: 1px solid #c3e6cb;
+    }
+    .status.error {
+      background: #f8d7da;
+      color: #721c24;
+      border: 1px solid #f5c6cb;
+    }
+    .info {
+      background: #e7f3ff;
+      padding: 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      color: #004085;
+      margin-bottom: 20px;
+      line-height: 1.5;
+    }
+    .inbox {
+      margin-top: 24px;
+      border-top: 1px solid #e0e0e0;
+      padding-top: 16px;
+    }
+    .inbox h2 {
+      font-size: 16px;
+      color: #333;
+      margin-bottom: 12px;
+    }
+    .report {
+      margin-bottom: 12px;
+      font-size: 14px;
+    }
+    .report-summary {
+      color: #666;
+      margin-bottom: 6px;
+    }
+    .reply {
+      background: #d4edda;
+      color: #155724;
+      border-radius: 8px;
+      padding: 10px;
+      margin-bottom: 6px;
+      white-space: pre-wrap;
+    }
+    .reply-meta, .waiting {
+      font-size: 12px;
+      color: #666;
+      margin-top: 4px;
+    }
+    .delivery {
+      font-size: 12px;
+      color: #999;
+      margin-bottom: 6px;
+    }
+    .delivery .reached {
+      color: #155724;
+      font-weight: 600;
+    }
+    .admin-key {
+      background: #f5f5f5;
+      padding: 12px;
+      border-radius: 8px;
+      font-size: 13px;
+      color: #333;
+      margin-bottom: 20px;
+      line-height: 1.5;
+    }
+    .admin-key .fingerprint {
+      font-family: monospace;
+      font-size: 16px;
+      margin: 8px 0;
+    }
+    .admin-key .actions {
+      display: flex;
+      gap: 8px;
+      margin: 8px 0;
+    }
+    .admin-key button.secondary {
+      background: #e0e0e0;
+      color: #333;
+      padding: 10px;
+      font-size: 14px;
+    }
+    .admin-key video {
+      width: 100%;
+      border-radius: 8px;
+      background: black;
+      margin-top: 8px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>🚨 NINE Emergency Alert</h1>
+    <p class="subtitle">Submit secure message to admin</p>
+    
+    <div class="info">
+      Your message is encrypted client-side before sending. Only the admin can decrypt it.
+    </div>
+
+    <div class="admin-key">
+      <div id="adminKeyStatus"></div>
+      <div id="adminKeyConfirm" hidden>
+        <strong>Confirm the admin key.</strong> Compare this fingerprint with the one on the admin's screen, or have them read it out. Only continue if every group matches.
+        <div id="pendingFingerprint" class="fingerprint"></div>
+        <div class="actions">
+          <button type="button" id="confirmKeyBtn">Fingerprints match</button>
+          <button type="button" id="cancelKeyBtn" class="secondary">Cancel</button>
+        </div>
+      </div>
+      <video id="scannerVideo" muted playsinline hidden></video>
+      <div class="actions">
+        <button type="button" id="scanBtn" class="secondary">Scan admin QR code</button>
+      </div>
+    </div>
+
+    <form id="alertForm">
+      <div class="form-group">
+        <label for="name">Your Name (optional)</label>
+        <input type="text" id="name" name="name" placeholder="Jane Doe">
+      </div>
+      
+      <div class="form-group">
+        <label for="location">Location (optional)</label>
+        <input type="text" id="location" name="location" placeholder="Building A, Floor 3">
+        <label style="display: flex; align-items: center; gap: 8px; margin-top: 8px; font-weight: normal;">
+          <input type="checkbox" id="shareLocation" name="shareLocation" style="width: auto;">
+          Share my GPS coordinates
+        </label>
+      </div>
+      
+      <div class="form-group">
+        <label for="contact">Contact Info (optional)</label>
+        <input type="text" id="contact" name="contact" placeholder="Phone or email">
+      </div>
+      
+      <div class="form-group">
+        <label for="message">What happened? *</label>
+        <textarea id="message" name="message" required placeholder="Describe the situation..."></textarea>
+      </div>
+      
+      <div class="form-group" style="display: flex; gap: 12px;">
+        <div style="flex: 1;">
+          <label for="people">People</label>
+          <input type="number" id="people" name="people" min="0" value="1">
+        </div>
+        <div style="flex: 1;">
+          <label for="injuries">Injured</label>
+          <input type="number" id="injuries" name="injuries" min="0" value="0">
+        </div>
+        <div style="flex: 1;">
+          <label for="severity">Severity</label>
+          <select id="severity" name="severity">
+            <option value="low">Low</option>
+            <option value="moderate" selected>Moderate</option>
+            <option value="high">High</option>
+            <option value="critical">Critical</option>
+          </select>
+        </div>
+      </div>
+      
+      <div class="form-group">
+        <label>Needs</label>
+        <div style="display: flex; flex-wrap: wrap; gap: 12px;">
+          <label style="font-weight: normal;"><input type="checkbox" name="needs" value="water" style="width: auto;"> Water</label>
+          <label style="font-weight: normal;"><input type="checkbox" name="needs" value="food" style="width: auto;"> Food</label>
+          <label style="font-weight: normal;"><input type="checkbox" name="needs" value="medical" style="width: auto;"> Medical</label>
+          <label style="font-weight: normal;"><input type="checkbox" name="needs" value="shelter" style="width: auto;"> Shelter</label>
+          <label style="font-weight: normal;"><input type="checkbox" name="needs" value="rescue" style="width: auto;"> Rescue</label>
+          <label style="font-weight: normal;"><input type="checkbox" name="needs" value="evacuation" style="width: auto;"> Evacuation</label>
+        </div>
+      </div>
+      
+      <div class="form-group">
+        <label for="attachment">Photo or File (optional, up to 2 MB)</label>
+        <input type="file" id="attachment" name="attachment">
+      </div>
+      
+      <button type="submit" id="submitBtn">Submit Encrypted Message</button>
+    </form>
+    
+    <div id="status"></div>
+
+    <div id="inbox" class="inbox" hidden></div>
+  </div>
+
+  <script type="module">
+    let adminPublicKey = null;
+    const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+    const ATTACHMENT_CHUNK_BYTES = 32 * 1024;
+
+    // The published or scanned key; a key is never typed in, since nothing would check its fingerprint
+    async function fetchAdminPublicKey() {
+      await syncPublishedAdminKey();
+      adminPublicKey = localStorage.getItem('nine_admin_public_key');
+    }
+
+    async function initCrypto() {
+      if (typeof window.sodium === 'undefined') {
+        const script = document.createElement('script');
+        script.src = 'https://cdn.jsdelivr.net/npm/libsodium-wrappers@0.7.15/dist/browsers/sodium.min.js';
+        await new Promise((resolve, reject) => {
+          script.onload = () => {
+            sodium.ready.then(resolve).catch(reject);
+          };
+          script.onerror = reject;
+          document.head.appendChild(script);
+        });
+      }
+    }
+
+    function keyFingerprint(publicKey) {
+      return sodium.to_hex(sodium.crypto_generichash(16, sodium.from_base64(publicKey)));
+    }
+
+    // Fingerprint over the encryption and signing keys, the one the admin's screen shows
+    function adminKeyFingerprint(publicKey, signingKey) {
+      const encryption = sodium.from_base64(publicKey);
+      const signing = signingKey ? sodium.from_base64(signingKey) : new Uint8Array(0);
+      const keys = new Uint8Array(encryption.length + signing.length);
+      keys.set(encryption);
+      keys.set(signing, encryption.length);
+      return sodium.to_hex(sodium.crypto_generichash(16, keys));
+    }
+
+    // The key a rotation notice announces, if the admin signing key countersigned it and it
+    // replaces the key with this key_id
+    function verifiedRotation(envelope, keyId, signingKey) {
+      try {
+        const notice = JSON.parse(envelope.payload);
+        if (notice.previous_key_id !== keyId || keyFingerprint(notice.public_key) !== notice.key_id) {
+          return null;
+        }
+
+        // Same field list the desktop app signs
+        const signedFields = JSON.stringify([
+          envelope.msg_id,
+          envelope.type,
+          envelope.from,
+          envelope.to,
+          envelope.timestamp,
+          envelope.payload,
+          envelope.meta ?? null,
+          envelope.sender_key ?? null,
+        ]);
+        const valid = sodium.crypto_sign_verify_detached(
+          sodium.from_base64(envelope.admin_signature),
+          new TextEncoder().encode(signedFields),
+          sodium.from_base64(signingKey)
+        );
+        return valid ? notice.public_key : null;
+      } catch (error) {
+        return null;
+      }
+    }
+
+    // Follow signed admin key rotations, when this browser holds the admin signing key to check
+    // them. The relay lists every notice claiming to replace the current key, forged ones
+    // included; the countersigned one is followed, then the key it announced is looked up in turn
+    async function applyKeyRotation() {
+      const signingKey = localStorage.getItem('nine_admin_signing_public_key');
+      if (!adminPublicKey || !signingKey) {
+        return;
+      }
+      try {
+        // Bounded in case the notices ever form a loop
+        for (let hop = 0; hop < 10; hop++) {
+          const keyId = keyFingerprint(adminPublicKey);
+          const response = await fetch('/gateway/key-rotation?from=' + encodeURIComponent(keyId));
+          const { envelopes } = await response.json();
+          const nextKey = (envelopes || [])
+            .map((envelope) => verifiedRotation(envelope, keyId, signingKey))
+            .find(Boolean);
+          if (!nextKey) {
+            return;
+          }
+          adminPublicKey = nextKey;
+          localStorage.setItem('nine_admin_public_key', adminPublicKey);
+          localStorage.setItem('nine_admin_key_verified', adminPublicKey);
+        }
+      } catch (error) {
+        console.error('Failed to check for an admin key rotation:', error);
+      }
+    }
+
+    // Resolves to null when the browser cannot or will not give a position
+    function getCoordinates() {
+      return new Promise((resolve) => {
+        if (!navigator.geolocation) {
+          resolve(null);
+          return;
+        }
+        navigator.geolocation.getCurrentPosition(
+          (position) =>
+            resolve({
+              lat: position.coords.latitude,
+              lon: position.coords.longitude,
+              accuracy: Math.round(position.coords.accuracy),
+              timestamp: new Date(position.timestamp).toISOString(),
+            }),
+          () => resolve(null),
+          { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+        );
+      });
+    }
+
+    async function encryptMessage(message, adminPublicKey) {
+      await sodium.ready;
+      const sessionKey = sodium.randombytes_buf(32);
+      const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+      const messageBytes = new TextEncoder().encode(message);
+      const ciphertext = sodium.crypto_secretbox_easy(messageBytes, nonce, sessionKey);
+      
+      const combined = new Uint8Array(nonce.length + ciphertext.length);
+      combined.set(nonce);
+      combined.set(ciphertext, nonce.length);
+      const encryptedPayload = sodium.to_base64(combined);
+      
+      const ephemeralKeypair = sodium.crypto_box_keypair();
+      const adminPubKeyBytes = sodium.from_base64(adminPublicKey);
+      const wrapNonce = sodium.randombytes_buf(sodium.crypto_box_NONCEBYTES);
+      const wrapped = sodium.crypto_box_easy(
+        sessionKey,
+        wrapNonce,
+        adminPubKeyBytes,
+        ephemeralKeypair.privateKey
+      );
+      
+      const wrappedCombined = new Uint8Array(
+        ephemeralKeypair.publicKey.length + wrapNonce.length + wrapped.length
+      );
+      wrappedCombined.set(ephemeralKeypair.publicKey);
+      wrappedCombined.set(wrapNonce, ephemeralKeypair.publicKey.length);
+      wrappedCombined.set(wrapped, ephemeralKeypair.publicKey.length + wrapNonce.length);
+      const wrappedKey = sodium.to_base64(wrappedCombined);
+      
+      return { encryptedPayload, wrappedKey, sessionKey };
+    }
+
+    function sealBytes(bytes, sessionKey) {
+      const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+      const ciphertext = sodium.crypto_secretbox_easy(bytes, nonce, sessionKey);
+      const combined = new Uint8Array(nonce.length + ciphertext.length);
+      combined.set(nonce);
+      combined.set(ciphertext, nonce.length);
+      return sodium.to_base64(combined);
+    }
+
+    // Encrypt a photo or file in 32 KB chunks with the message's session key
+    async function encryptAttachment(file, sessionKey) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        throw new Error('Attachments are limited to 2 MB');
+      }
+      const data = new Uint8Array(await file.arrayBuffer());
+      const manifest = {
+        name: file.name,
+        mime: file.type || 'application/octet-stream',
+        size: data.length,
+        hash: sodium.to_base64(sodium.crypto_generichash(32, data)),
+      };
+      const chunks = [];
+      for (let offset = 0; offset < data.length || chunks.length === 0; offset += ATTACHMENT_CHUNK_BYTES) {
+        chunks.push(sealBytes(data.subarray(offset, offset + ATTACHMENT_CHUNK_BYTES), sessionKey));
+      }
+      return {
+        id: crypto.randomUUID(),
+        manifest: sealBytes(new TextEncoder().encode(JSON.stringify(manifest)), sessionKey),
+        chunks,
+      };
+    }
+
+    const INBOX_POLL_MS = 15 * 1000;
+    const INBOX_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+    const DELIVERY_STEPS = ['sent', 'relayed', 'decrypted', 'acknowledged'];
+
+    // Reports sent from this browser, with their reply keypair and the replies opened so far
+    function openReportStore() {
+      return new Promise((resolve, reject) => {
+        const request = indexedDB.open('nine_gateway', 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('reports', { keyPath: 'msgId' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    async function withReportStore(mode, action) {
+      const db = await openReportStore();
+      return new Promise((resolve, reject) => {
+        const transaction = db.transaction('reports', mode);
+        const request = action(transaction.objectStore('reports'));
+        transaction.oncomplete = () => {
+          db.close();
+          resolve(request.result);
+        };
+        transaction.onerror = () => {
+          db.close();
+          reject(transaction.error);
+        };
+      });
+    }
+
+    function saveReport(report) {
+      return withReportStore('readwrite', (store) => store.put(report));
+    }
+
+    function getReports() {
+      return withReportStore('readonly', (store) => store.getAll());
+    }
+
+    // Replies and receipts are countersigned by the admin over the same field list the
+    // desktop app signs
+    function verifyCountersigned(envelope) {
+      const signingKey = localStorage.getItem('nine_admin_signing_public_key');
+      if (!signingKey || !envelope.admin_signature) {
+        return false;
+      }
+      const signedFields = JSON.stringify([
+        envelope.msg_id,
+        envelope.type,
+        envelope.from,
+        envelope.to,
+        envelope.timestamp,
+        envelope.payload,
+        envelope.meta ?? null,
+        envelope.sender_key ?? null,
+        { in_reply_to: envelope.in_reply_to },
+      ]);
+      try {
+        return sodium.crypto_sign_verify_detached(
+          sodium.from_base64(envelope.admin_signature),
+          new TextEncoder().encode(signedFields),
+          sodium.from_base64(signingKey)
+        );
+      } catch {
+        return false;
+      }
+    }
+
+    function openReply(report, envelope, key) {
+      if (key.key_id !== keyFingerprint(report.publicKey)) {
+        return null;
+      }
+      const wrapped = sodium.from_base64(key.wrapped_key);
+      const keyEnd = sodium.crypto_box_PUBLICKEYBYTES;
+      const nonceEnd = keyEnd + sodium.crypto_box_NONCEBYTES;
+      const sessionKey = sodium.crypto_box_open_easy(
+        wrapped.slice(nonceEnd),
+        wrapped.slice(keyEnd, nonceEnd),
+        wrapped.slice(0, keyEnd),
+        sodium.from_base64(report.privateKey)
+      );
+
+      const combined = sodium.from_base64(envelope.payload);
+      const content = sodium.crypto_secretbox_open_easy(
+        combined.slice(sodium.crypto_secretbox_NONCEBYTES),
+        combined.slice(0, sodium.crypto_secretbox_NONCEBYTES),
+        sessionKey
+      );
+      return {
+        msgId: envelope.msg_id,
+        content: new TextDecoder().decode(content),
+        timestamp: envelope.timestamp,
+        verified: verifyCountersigned(envelope),
+      };
+    }
+
+    // Reports submitted before receipts existed were at least relayed
+    function deliveryOf(report) {
+      return report.delivery || { status: 'relayed', verified: true };
+    }
+
+    // Receipts only move a report forward; unsigned ones still count but are marked
+    function applyReceipt(report, envelope) {
+      if (DELIVERY_STEPS.indexOf(envelope.payload) <= DELIVERY_STEPS.indexOf(deliveryOf(report).status)) {
+        return false;
+      }
+      report.delivery = { status: envelope.payload, verified: verifyCountersigned(envelope) };
+      return true;
+    }
+
+    // Fetch the mailbox of every recent report, open the replies not seen before and
+    // apply any new receipts
+    async function checkInbox() {
+      try {
+        const reports = (await getReports()).filter(
+          (report) => Date.now() - new Date(report.submittedAt).getTime() < INBOX_MAX_AGE_MS
+        );
+        if (reports.length > 0) {
+          await initCrypto();
+        }
+        for (const report of reports) {
+          const response = await fetch('/gateway/inbox/' + encodeURIComponent(report.msgId));
+          if (!response.ok) {
+            continue;
+          }
+          const { replies, receipts = [] } = await response.json();
+          let changed = false;
+          for (const { envelope, key } of replies) {
+            if (report.replies.some((reply) => reply.msgId === envelope.msg_id)) {
+              continue;
+            }
+            try {
+              const reply = openReply(report, envelope, key);
+              if (reply) {
+                report.replies.push(reply);
+                changed = true;
+              }
+            } catch (error) {
+              console.error('Failed to open reply ' + envelope.msg_id + ':', error);
+            }
+          }
+          for (const envelope of receipts) {
+            changed = applyReceipt(report, envelope) || changed;
+          }
+          if (changed) {
+            await saveReport(report);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to check for replies:', error);
+      }
+      await showInbox();
+    }
+
+    async function showInbox() {
+      let reports = [];
+      try {
+        reports = await getReports();
+      } catch (error) {
+        console.error('Failed to load sent reports:', error);
+      }
+      reports.sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+
+      inboxDiv.hidden = reports.length === 0;
+      inboxDiv.replaceChildren();
+      const heading = document.createElement('h2');
+      heading.textContent = 'Your reports';
+      inboxDiv.append(heading);
+
+      for (const report of reports) {
+        const item = document.createElement('div');
+        item.className = 'report';
+        const summary = document.createElement('div');
+        summary.className = 'report-summary';
+        summary.textContent = new Date(report.submittedAt).toLocaleString() + ' · ' + report.summary;
+        item.append(summary);
+
+        const delivery = deliveryOf(report);
+        const steps = document.createElement('div');
+        steps.className = 'delivery';
+        DELIVERY_STEPS.forEach((step, index) => {
+          const label = document.createElement('span');
+          label.textContent = (index > 0 ? ' → ' : '') + step.charAt(0).toUpperCase() + step.slice(1);
+          if (index <= DELIVERY_STEPS.indexOf(delivery.status)) {
+            label.className = 'reached';
+          }
+          steps.append(label);
+        });
+        if (!delivery.verified) {
+          steps.append(' · unverified');
+        }
+        item.append(steps);
+
+        if (report.replies.length === 0) {
+          const waiting = document.createElement('div');
+          waiting.className = 'waiting';
+          waiting.textContent = 'No reply yet';
+          item.append(waiting);
+        }
+        for (const reply of report.replies) {
+          const replyDiv = document.createElement('div');
+          replyDiv.className = 'reply';
+          replyDiv.textContent = reply.content;
+          const meta = document.createElement('div');
+          meta.className = 'reply-meta';
+          meta.textContent =
+            'Admin · ' + new Date(reply.timestamp).toLocaleString() + (reply.verified ? '' : ' · unverified');
+          replyDiv.append(meta);
+          item.append(replyDiv);
+        }
+        inboxDiv.append(item);
+      }
+    }
+
+    const form = document.getElementById('alertForm');
+    const statusDiv = document.getElementById('status');
+    const submitBtn = document.getElementById('submitBtn');
+    const inboxDiv = document.getElementById('inbox');
+    const adminKeyStatus = document.getElementById('adminKeyStatus');
+    const adminKeyConfirm = document.getElementById('adminKeyConfirm');
+    const pendingFingerprint = document.getElementById('pendingFingerprint');
+    const scannerVideo = document.getElementById('scannerVideo');
+    const scanBtn = document.getElementById('scanBtn');
+
+    // Admin keys read from a QR code, held until the user has compared the fingerprint
+    let pendingAdminKeys = null;
+    let scanStream = null;
+    // Where the cached admin key came from, shown next to its fingerprint
+    let adminKeyNote = '';
+
+    function formatFingerprint(fingerprint) {
+      return fingerprint.match(/.{1,4}/g).join(' ');
+    }
+
+    // Same field list the desktop app signs
+    function verifyKeyStatement(statement, signingKey) {
+      if (!statement.signature || !signingKey) {
+        return false;
+      }
+      const signedFields = JSON.stringify([
+        'nine-admin-key',
+        statement.key_id,
+        statement.public_key,
+        statement.signing_key ?? null,
+        statement.issued_at,
+      ]);
+      try {
+        return sodium.crypto_sign_verify_detached(
+          sodium.from_base64(statement.signature),
+          new TextEncoder().encode(signedFields),
+          sodium.from_base64(signingKey)
+        );
+      } catch {
+        return false;
+      }
+    }
+
+    /**
+     * Cache the admin key the hosting node publishes, for reuse when the node cannot be reached.
+     * The first key is taken but shown as unverified: the node also served this page, so
+     * refusing it gains nothing. After that a different key is only taken when it is signed by
+     * the admin signing key this browser holds. That signing key only ever comes from a scanned
+     * QR code whose fingerprint the user confirmed, never from this endpoint, since whoever
+     * answers here could otherwise pick the key the page trusts from then on.
+     */
+    async function syncPublishedAdminKey() {
+      let statement;
+      try {
+        const response = await fetch('/gateway/admin-keys');
+        if (!response.ok) {
+          return;
+        }
+        statement = (await response.json()).keys?.[0];
+        if (!statement) {
+          return;
+        }
+        await initCrypto();
+      } catch (error) {
+        console.warn('Using the cached admin key:', error);
+        return;
+      }
+      if (keyFingerprint(statement.public_key) !== statement.key_id) {
+        console.warn('Ignoring a published admin key that does not match its fingerprint');
+        return;
+      }
+
+      const cachedKey = localStorage.getItem('nine_admin_public_key');
+      const cachedSigningKey = localStorage.getItem('nine_admin_signing_public_key');
+      const signedByKnownAdmin = verifyKeyStatement(statement, cachedSigningKey);
+
+      if (cachedKey && cachedKey !== statement.public_key && !signedByKnownAdmin) {
+        adminKeyNote =
+          ' · This node publishes a different admin key (' +
+          formatFingerprint(statement.key_id) +
+          ') that is not signed by the admin you know. Keeping the key you already had.';
+        return;
+      }
+
+      localStorage.setItem('nine_admin_public_key', statement.public_key);
+      if (signedByKnownAdmin) {
+        localStorage.setItem('nine_admin_key_verified', statement.public_key);
+      }
+      adminPublicKey = statement.public_key;
+      adminKeyNote =
+        localStorage.getItem('nine_admin_key_verified') === statement.public_key
+          ? ' · verified against the admin QR code'
+          : ' · from this node, unverified. Scan the admin QR code to verify it';
+    }
+
+    // Same link the desktop app shows as a QR code: this page's URL with the keys in the fragment
+    async function readAdminKeyLink(link) {
+      await initCrypto();
+      let params;
+      try {
+        params = new URLSearchParams(new URL(link).hash.slice(1));
+      } catch {
+        throw new Error('This is not a NINE admin key code');
+      }
+      const publicKey = params.get('admin');
+      const signingKey = params.get('signing');
+      const fingerprint = params.get('fp');
+      if (!publicKey || !fingerprint) {
+        throw new Error('This is not a NINE admin key code');
+      }
+
+      const isKey = (key) => {
+        try {
+          return sodium.from_base64(key).length === 32;
+        } catch {
+          return false;
+        }
+      };
+      if (!isKey(publicKey) || (signingKey && !isKey(signingKey))) {
+        throw new Error('The admin key code is damaged');
+      }
+      // Covers the signing key too, so it cannot be swapped without changing what the user compares
+      if (adminKeyFingerprint(publicKey, signingKey) !== fingerprint) {
+        throw new Error('The admin keys do not match their fingerprint. The code may have been altered');
+      }
+      const signature = params.get('sig');
+      const statement = {
+        key_id: keyFingerprint(publicKey),
+        public_key: publicKey,
+        signing_key: signingKey,
+        issued_at: params.get('at'),
+        signature,
+      };
+      if (signature && !verifyKeyStatement(statement, signingKey)) {
+        throw new Error('The admin key signature is invalid. The code may have been altered');
+      }
+      return { publicKey, signingKey, fingerprint };
+    }
+
+    async function showAdminKey() {
+      adminKeyConfirm.hidden = !pendingAdminKeys;
+      scanBtn.hidden = Boolean(pendingAdminKeys);
+      if (pendingAdminKeys) {
+        pendingFingerprint.textContent = formatFingerprint(pendingAdminKeys.fingerprint);
+        adminKeyStatus.textContent = '';
+        return;
+      }
+
+      const stored = localStorage.getItem('nine_admin_public_key');
+      if (!stored) {
+        adminKeyStatus.textContent = "No admin key yet. Scan the QR code on the admin's screen.";
+        return;
+      }
+      try {
+        await initCrypto();
+        const fingerprint = adminKeyFingerprint(stored, localStorage.getItem('nine_admin_signing_public_key'));
+        adminKeyStatus.textContent = 'Admin key fingerprint: ' + formatFingerprint(fingerprint) + adminKeyNote;
+      } catch (error) {
+        adminKeyStatus.textContent = 'Admin key loaded';
+      }
+    }
+
+    async function loadAdminKeyLink(link) {
+      try {
+        pendingAdminKeys = await readAdminKeyLink(link);
+      } catch (error) {
+        statusDiv.className = 'status error';
+        statusDiv.textContent = '✗ ' + error.message;
+      }
+      await showAdminKey();
+    }
+
+    // Keys arriving in the page URL should not linger in the address bar or history
+    function settleAdminKey(keys) {
+      if (keys) {
+        localStorage.setItem('nine_admin_public_key', keys.publicKey);
+        localStorage.setItem('nine_admin_key_verified', keys.publicKey);
+        // The confirmed fingerprint covers both keys, so a code without a signing key must
+        // not leave an older one trusted
+        if (keys.signingKey) {
+          localStorage.setItem('nine_admin_signing_public_key', keys.signingKey);
+        } else {
+          localStorage.removeItem('nine_admin_signing_public_key');
+        }
+        adminPublicKey = keys.publicKey;
+        adminKeyNote = ' · scanned from the admin';
+      }
+      pendingAdminKeys = null;
+      history.replaceState(null, '', location.pathname);
+      showAdminKey();
+    }
+
+    // The browser's own QR detector where there is one, otherwise jsQR on canvas frames
+    async function createQrDetector() {
+      if ('BarcodeDetector' in window) {
+        const detector = new BarcodeDetector({ formats: ['qr_code'] });
+        return async (video) => (await detector.detect(video))[0]?.rawValue;
+      }
+      if (typeof window.jsQR === 'undefined') {
+        await new Promise((resolve, reject) => {
+          const script = document.createElement('script');
+          script.src = '/gateway/jsQR.js';
+          script.onload = resolve;
+          script.onerror = reject;
+          document.head.appendChild(script);
+        });
+      }
+      const canvas = document.createElement('canvas');
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      return async (video) => {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        if (!canvas.width) {
+          return null;
+        }
+        context.drawImage(video, 0, 0);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        return window.jsQR(image.data, image.width, image.height)?.data;
+      };
+    }
+
+    function stopScan() {
+      scanStream?.getTracks().forEach((track) => track.stop());
+      scanStream = null;
+      scannerVideo.hidden = true;
+      scanBtn.textContent = 'Scan admin QR code';
+    }
+
+    async function scanAdminKey() {
+      if (scanStream) {
+        stopScan();
+        return;
+      }
+      try {
+        // Browsers only allow the camera over HTTPS or on localhost
+        if (!navigator.mediaDevices) {
+          throw new Error('The camera needs this page to be opened over HTTPS');
+        }
+        const detect = await createQrDetector();
+        scanStream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        scannerVideo.srcObject = scanStream;
+        scannerVideo.hidden = false;
+        scanBtn.textContent = 'Stop scanning';
+        await scannerVideo.play();
+
+        const tick = async () => {
+          if (!scanStream) {
+            return;
+          }
+          const text = await detect(scannerVideo).catch(() => null);
+          if (text) {
+            stopScan();
+            await loadAdminKeyLink(text);
+            return;
+          }
+          requestAnimationFrame(tick);
+        };
+        requestAnimationFrame(tick);
+      } catch (error) {
+        stopScan();
+        statusDiv.className = 'status error';
+        statusDiv.textContent = '✗ Camera unavailable: ' + error.message;
+      }
+    }
+
+    scanBtn.addEventListener('click', scanAdminKey);
+    document.getElementById('confirmKeyBtn').addEventListener('click', () => settleAdminKey(pendingAdminKeys));
+    document.getElementById('cancelKeyBtn').addEventListener('click', () => settleAdminKey(null));
+
+    form.addEventListener('submit', async (e) => {
+      e.preventDefault();
+      submitBtn.disabled = true;
+      statusDiv.innerHTML = '';
+      statusDiv.className = 'status';
+      
+      try {
+        await initCrypto();
+        await fetchAdminPublicKey();
+        await applyKeyRotation();
+        
+        if (!adminPublicKey) {
+          throw new Error("No admin key yet. Scan the QR code on the admin's screen first");
+        }
+        
+        const formData = new FormData(form);
+        const message = formData.get('message');
+        if (!message) {
+          throw new Error('Message is required');
+        }
+        const people = Number(formData.get('people'));
+        const injuries = Number(formData.get('injuries'));
+        if (!Number.isInteger(people) || !Number.isInteger(injuries) || people < 0 || injuries < 0 || injuries > people) {
+          throw new Error('Check the number of people and injured');
+        }
+        
+        // Incident report schema version 1, as validated by the admin's desktop app
+        const report = {
+          schema: 'nine-incident',
+          version: 1,
+          description: message.trim(),
+          people,
+          injuries,
+          needs: formData.getAll('needs'),
+          severity: formData.get('severity'),
+          status: 'open',
+        };
+        
+        const { encryptedPayload, wrappedKey, sessionKey } = await encryptMessage(JSON.stringify(report), adminPublicKey);
+        const msgId = crypto.randomUUID();
+        // The admin answers by encrypting to this key; only this browser keeps the private half
+        const replyKeyPair = sodium.crypto_box_keypair();
+        const replyPublicKey = sodium.to_base64(replyKeyPair.publicKey);
+        const coords = formData.get('shareLocation') ? await getCoordinates() : null;
+        const file = formData.get('attachment');
+        const attachment = file && file.size > 0 ? await encryptAttachment(file, sessionKey) : undefined;
+        
+        const response = await fetch('/gateway/submit', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            encryptedPayload,
+            wrappedKey,
+            keyId: keyFingerprint(adminPublicKey),
+            replyKey: sealBytes(new TextEncoder().encode(replyPublicKey), sessionKey),
+            msgId,
+            from: 'gateway_user',
+            meta: {
+              name: formData.get('name') || undefined,
+              location: formData.get('location') || undefined,
+              coords: coords || undefined,
+              contact: formData.get('contact') || undefined,
+            },
+            attachment,
+          }),
+        });
+        
+        if (!response.ok) {
+          const { error } = await response.json().catch(() => ({}));
+          throw new Error(error || 'Failed to submit message');
+        }
+        
+        await saveReport({
+          msgId,
+          summary: report.description.slice(0, 80),
+          submittedAt: new Date().toISOString(),
+          publicKey: replyPublicKey,
+          privateKey: sodium.to_base64(replyKeyPair.privateKey),
+          replies: [],
+          // The server took it, so it is already on the mesh
+          delivery: { status: 'relayed', verified: true },
+        }).catch((error) => console.error('Failed to keep the reply key:', error));
+        await showInbox();
+
+        statusDiv.className = 'status success';
+        statusDiv.textContent = '✓ Message encrypted and submitted successfully! Replies from the admin will appear below.';
+        form.reset();
+      } catch (error) {
+        statusDiv.className = 'status error';
+        statusDiv.textContent = '✗ Error: ' + error.message;
+      } finally {
+        submitBtn.disabled = false;
+      }
+    });
+
+    // Opened from the admin's QR code with a phone camera
+    if (new URLSearchParams(location.hash.slice(1)).has('admin')) {
+      loadAdminKeyLink(location.href);
+    } else {
+      syncPublishedAdminKey().then(showAdminKey);
+    }
+    checkInbox();
+    setInterval(checkInbox, INBOX_POLL_MS);
+  </script>
+</body>
+</html>
+  `;
+}
@@ -0,0 +1,578 @@
+import { createServer as createHttpServer } from 'http';
+import { createServer as createHttpsServer } from 'https';
+import { randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import express from 'express';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  configureAccessControl,
+  takeToken,
+  getRetryAfter,
+  checkEnvelopeSize,
+  checkJoin,
+  isOriginAllowed,
+  loadOrCreateNodeKey,
+  MAX_ATTACHMENT_CHUNKS,
+  MAX_FRAME_BYTES,
+} from '../../electron/accessControl.js';
+import {
+  startFederation,
+  dialServer,
+  dropServer,
+  relayToUpstreams,
+  markFrameSeen,
+  getUpstreams,
+  stopFederation,
+} from '../../electron/federation.js';
+import { startDiscovery, stopDiscovery, NearbyServer } from '../../electron/discovery.js';
+import { getRecord, queryRecords } from '../../electron/messageLog.js';
+import { storeRelayedFrame, createSyncRequest, getMissingFrames } from '../../electron/replay.js';
+import {
+  openSession,
+  recordIncoming,
+  registerPeer,
+  closeSession,
+  sendToSession,
+  sendError,
+  getPeerSessions,
+  startHeartbeat,
+  stopHeartbeat,
+  getSessionStatus,
+  Session,
+} from '../../electron/sessions.js';
+import { loadOrCreateCertificate, checkPin, TlsCertificate } from '../../electron/tls.js';
+import { isTransferFrame, receiveTransferFrame, dropTransfers } from '../../electron/transfer.js';
+import { RelayConfig } from './config.js';
+import { getGatewayHTML } from './gatewayPage.js';
+import {
+  MeshMessageFrame,
+  RegisterFrame,
+  RelayEnvelope,
+  RelayFrame,
+  SyncRequestFrame,
+  parsePeerFrame,
+} from './frames.js';
+
+export interface PeerUpdate {
+  type: 'connected' | 'disconnected';
+  peerId: string;
+  total: number;
+}
+
+// An admin key statement as the gateway page checks it; see AdminKeyShare in the app
+export interface PublishedAdminKey {
+  key_id: string;
+  public_key: string;
+  signing_key?: string;
+  issued_at?: string;
+  signature?: string;
+}
+
+export interface RelayOptions extends RelayConfig {
+  // The TLS certificate is kept in <dataDir>/tls, the node key in <dataDir>/node-key.pem
+  dataDir: string;
+  // A web build of the app to serve at /, e.g. dist
+  staticDir?: string;
+  // Announce this relay on the LAN and federate with the relays that answer (default on)
+  discovery?: boolean;
+  onPeerUpdate?: (update: PeerUpdate) => void;
+  onNearbyServersChange?: (servers: NearbyServer[]) => void;
+}
+
+export interface Relay {
+  // Identity this relay uses when it registers with other NINE servers
+  serverId: string;
+  // Null when TLS is off or the certificate could not be loaded
+  certificate: TlsCertificate | null;
+  // Public half of the key federation links sign their registration with; other servers that
+  // only admit NINE_ALLOWED_NODES list it there
+  nodeKey: string;
+  // https://host:port, or http:// without a certificate
+  origin(host?: string): string;
+  // Where the map tile set is looked for, and the zoom levels found there (none when empty)
+  tilesDir: string;
+  tileZooms(): number[];
+  // Admin key statements served at GET /gateway/admin-keys; browsers check the signatures
+  setAdminKeys(statements: unknown): void;
+  stop(): Promise<void>;
+}
+
+interface GatewayAttachment {
+  id: string;
+  manifest: unknown;
+  chunks: string[];
+}
+
+/**
+ * Start the NINE relay: the /mesh WebSocket that peers register and exchange envelopes on,
+ * the PWA gateway and its endpoints, federation with other servers and LAN discovery.
+ * The desktop app and nine-relay both run it. The caller opens the message log (replays,
+ * gateway inbox) and the pin store (federation) before starting it.
+ */
+export async function startRelay(options: RelayOptions): Promise<Relay> {
+  const serverId = randomBytes(16).toString('hex');
+  let adminKeys: PublishedAdminKey[] = [];
+
+  let certificate: TlsCertificate | null = null;
+  if (options.tls) {
+    // An offline mesh without TLS beats no mesh at all, so a broken certificate is not fatal
+    certificate = await loadOrCreateCertificate(path.join(options.dataDir, 'tls')).catch((error) => {
+      console.error('⚠️ Failed to load the TLS certificate, serving plain HTTP:', error);
+      return null;
+    });
+  }
+  const nodeKey = loadOrCreateNodeKey(options.dataDir);
+  const origin = (host = 'localhost') => `${certificate ? 'https' : 'http'}://${host}:${options.port}`;
+
+  const expressApp = express();
+  const httpServer = certificate
+    ? createHttpsServer({ key: certificate.key, cert: certificate.cert }, expressApp)
+    : createHttpServer(expressApp);
+  configureAccessControl({
+    meshSecret: options.meshSecret,
+    allowedNodes: options.allowedNodes,
+    allowedOrigins: options.allowedOrigins,
+  });
+
+  // CORS only for the configured origins
+  expressApp.use((req, res, next) => {
+    const requestOrigin = req.headers.origin;
+    if (requestOrigin && isOriginAllowed(requestOrigin)) {
+      res.header('Access-Control-Allow-Origin', requestOrigin);
+      res.header('Vary', 'Origin');
+      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(200);
+      return;
+    }
+    next();
+  });
+
+  // A 2 MB attachment is about 2.7 MB once encrypted and base64-encoded
+  expressApp.use(express.json({ limit: '4mb' }));
+
+  // WebSocket server for mesh networking. Larger frames arrive in chunks, so none exceeds the cap
+  const wss = new WebSocketServer({ server: httpServer, path: '/mesh', maxPayload: MAX_FRAME_BYTES });
+
+  wss.on('connection', (ws, req) => {
+    const session = openSession(ws, req);
+
+    ws.on('message', (data: Buffer) => {
+      recordIncoming(session, data);
+      try {
+        handlePeerMessage(session, JSON.parse(data.toString()));
+      } catch (error) {
+        console.error('Error handling message:', error);
+      }
+    });
+
+    ws.on('close', () => {
+      dropTransfers(ws);
+      const peerId = closeSession(session);
+      if (peerId) {
+        broadcastToOthers(peerId, { type: 'peer_disconnected', peerId });
+        options.onPeerUpdate?.({ type: 'disconnected', peerId, total: getPeerSessions().length });
+      }
+    });
+
+    ws.on('error', (error) => {
+      console.error('WebSocket error:', error);
+    });
+
+    // Checked once the handlers are in place, so the normal close handling cleans up
+    if (!takeToken('connections', session.address ?? '')) {
+      sendError(session, 'rate_limited', 'Too many connections from this address');
+      ws.close(4029, 'Too many connections');
+    }
+  });
+
+  function handlePeerMessage(session: Session, message: { type?: unknown; envelope?: { msg_id?: unknown } }) {
+    // Nothing but a register frame is accepted before the peer has joined
+    if (!session.peerId && message.type !== 'register') {
+      sendError(session, 'not_registered', 'Send a register frame first');
+      return;
+    }
+    const bucket = session.role === 'server' ? 'serverFrames' : 'peerFrames';
+    if (session.peerId && !takeToken(bucket, session.peerId)) {
+      const msgId = message.envelope?.msg_id;
+      sendError(session, 'rate_limited', 'Too many frames, slow down', {
+        ...(typeof msgId === 'string' ? { msg_id: msgId } : {}),
+      });
+      return;
+    }
+
+    // Large frames arrive in chunks and are handled once reassembled
+    let received: unknown = message;
+    if (isTransferFrame(message)) {
+      received = receiveTransferFrame(session.ws, message);
+      if (!received) {
+        return;
+      }
+    }
+
+    const frame = parsePeerFrame(received);
+    if (frame?.type === 'register') {
+      handleRegister(session, frame);
+    } else if (frame?.type === 'mesh_message') {
+      handleMeshMessage(session, frame);
+    } else if (frame?.type === 'sync_request') {
+      handleSyncRequest(session, frame);
+    }
+  }
+
+  function handleRegister(session: Session, frame: RegisterFrame) {
+    const refused = checkJoin(frame);
+    if (refused) {
+      console.warn(`Refused peer ${frame.peerId} from ${session.address}: ${refused}`);
+      sendError(session, 'unauthorized', refused);
+      session.ws.close(4003, 'Not allowed to join');
+      return;
+    }
+
+    // A second connection claiming a peer ID that is still connected is turned away
+    if (!registerPeer(session, frame.peerId, frame)) {
+      return;
+    }
+    const peerId = frame.peerId;
+
+    broadcastToOthers(peerId, { type: 'peer_connected', peerId });
+    send(session, {
+      type: 'peer_list',
+      peers: getPeerSessions()
+        .map((peer) => peer.peerId)
+        .filter((id): id is string => Boolean(id) && id !== peerId),
+    });
+    options.onPeerUpdate?.({ type: 'connected', peerId, total: getPeerSessions().length });
+  }
+
+  function handleMeshMessage(session: Session, frame: MeshMessageFrame) {
+    const tooLarge = checkEnvelopeSize(frame.envelope, frame.envelopeType);
+    if (tooLarge) {
+      sendError(session, 'too_large', tooLarge, { msg_id: frame.envelope.msg_id });
+      return;
+    }
+    relay(
+      {
+        type: 'mesh_message',
+        envelope: frame.envelope,
+        fromPeer: session.peerId ?? undefined,
+        ...(frame.envelopeType === 'key' ? { envelopeType: 'key' } : {}),
+      },
+      session.peerId
+    );
+
+    // Confirm the relay has the message, even if another peer brought it here first
+    if (frame.envelopeType !== 'key') {
+      send(session, { type: 'mesh_ack', msg_id: frame.envelope.msg_id });
+    }
+  }
+
+  // A late joiner lists what it already holds; push what it missed
+  function handleSyncRequest(session: Session, frame: SyncRequestFrame) {
+    getMissingFrames(frame, serverId).forEach((missing) => send(session, missing));
+  }
+
+  // Frames arriving from federated servers go to local peers and on to the other servers
+  function handleFederatedFrame(frame: MeshMessageFrame, sourceUrl: string) {
+    const tooLarge = checkEnvelopeSize(frame.envelope, frame.envelopeType);
+    if (tooLarge) {
+      console.warn(`Dropped a frame from ${sourceUrl}: ${tooLarge}`);
+      return;
+    }
+    relay(frame, null, sourceUrl);
+  }
+
+  /**
+   * Pass a frame on to every local peer but its sender and to every federated server but the
+   * one it came from, keeping it for replay. Frames already relayed are dropped.
+   */
+  function relay(frame: MeshMessageFrame, excludePeerId: string | null, sourceUrl?: string) {
+    if (!markFrameSeen(frame)) {
+      return;
+    }
+    storeRelayedFrame(frame);
+    broadcastToOthers(excludePeerId, frame);
+    relayToUpstreams(frame, sourceUrl);
+  }
+
+  function broadcastToOthers(excludePeerId: string | null, frame: RelayFrame) {
+    const payload = JSON.stringify(frame);
+    getPeerSessions().forEach((session) => {
+      if (session.peerId !== excludePeerId && session.ws.readyState === WebSocket.OPEN) {
+        sendToSession(session, payload).catch(console.error);
+      }
+    });
+  }
+
+  function send(session: Session, frame: RelayFrame) {
+    sendToSession(session, JSON.stringify(frame)).catch(console.error);
+  }
+
+  // PWA Gateway endpoint
+  expressApp.post('/gateway/submit', (req, res) => {
+    if (!takeToken('gatewaySubmit', req.socket.remoteAddress ?? '')) {
+      res.set('Retry-After', String(getRetryAfter('gatewaySubmit')));
+      res.status(429).json({ error: 'Too many reports from this address, try again in a minute' });
+      return;
+    }
+
+    try {
+      const { encryptedPayload, wrappedKey, msgId } = req.body;
+      const attachment: GatewayAttachment | undefined = req.body.attachment;
+
+      if (!encryptedPayload || !wrappedKey || !msgId) {
+        res.status(400).json({ error: 'Missing required fields' });
+        return;
+      }
+      if (
+        attachment &&
+        (!attachment.id || !attachment.manifest || !Array.isArray(attachment.chunks) || attachment.chunks.length === 0)
+      ) {
+        res.status(400).json({ error: 'Malformed attachment' });
+        return;
+      }
+      if (attachment && attachment.chunks.length > MAX_ATTACHMENT_CHUNKS) {
+        res.status(413).json({ error: 'Attachment is too large' });
+        return;
+      }
+
+      const messageEnvelope: RelayEnvelope = {
+        msg_id: msgId,
+        type: 'e2e',
+        from: req.body.from || 'gateway_user',
+        to: 'admin',
+        timestamp: new Date().toISOString(),
+        ttl: 8,
+        hops: [{ nodeId: 'gateway', timestamp: new Date().toISOString() }],
+        payload: encryptedPayload,
+        meta: attachment ? { ...req.body.meta, imageRef: attachment.id } : req.body.meta || {},
+        // Reply public key of the submitting browser, encrypted with the session key
+        ...(req.body.replyKey ? { reply_key: req.body.replyKey } : {}),
+      };
+
+      const keyEnvelope: RelayEnvelope = {
+        msg_id: msgId,
+        from: messageEnvelope.from,
+        to: 'admin',
+        key_id: req.body.keyId,
+        wrapped_key: wrappedKey,
+        algorithm: 'x25519+aes-256-gcm',
+      };
+
+      // Attachment chunks travel as their own envelopes, encrypted with the same session key
+      const chunkEnvelopes: RelayEnvelope[] = (attachment?.chunks || []).map((payload, index, chunks) => ({
+        msg_id: randomUUID(),
+        type: 'attachment',
+        from: messageEnvelope.from,
+        to: 'admin',
+        timestamp: messageEnvelope.timestamp,
+        ttl: 8,
+        hops: [{ nodeId: 'gateway', timestamp: new Date().toISOString() }],
+        payload,
+        chunk: {
+          attachment_id: attachment?.id,
+          parent_msg_id: msgId,
+          index,
+          total: chunks.length,
+          ...(index === 0 ? { manifest: attachment?.manifest } : {}),
+        },
+      }));
+
+      const tooLarge = [
+        checkEnvelopeSize(messageEnvelope),
+        checkEnvelopeSize(keyEnvelope, 'key'),
+        ...chunkEnvelopes.map((envelope) => checkEnvelopeSize(envelope)),
+      ].find(Boolean);
+      if (tooLarge) {
+        res.status(413).json({ error: tooLarge });
+        return;
+      }
+
+      relay({ type: 'mesh_message', envelope: messageEnvelope, fromPeer: 'gateway' }, null);
+
+      // Key and attachment chunks go after the message, matching the order nodes send in
+      setTimeout(() => {
+        relay({ type: 'mesh_message', envelope: keyEnvelope, envelopeType: 'key', fromPeer: 'gateway' }, null);
+        chunkEnvelopes.forEach((envelope) => relay({ type: 'mesh_message', envelope, fromPeer: 'gateway' }, null));
+      }, 100);
+
+      res.json({ success: true, msgId });
+    } catch (error) {
+      console.error('Gateway error:', error);
+      res.status(500).json({ error: 'Failed to submit message' });
+    }
+  });
+
+  // Admin key rotations seen on the mesh that replace the key ?from= (a key_id), newest first.
+  // The relay cannot tell a forged notice from the real one, so it lists them all and the
+  // gateway page follows only one countersigned with the admin signing key it trusts
+  expressApp.get('/gateway/key-rotation', (req, res) => {
+    const from = typeof req.query.from === 'string' ? req.query.from : null;
+    const envelopes = queryRecords<RelayEnvelope>('relayMessages', { type: 'key_rotation' }).items.filter(
+      (envelope) => {
+        if (!from || typeof envelope.admin_signature !== 'string' || typeof envelope.payload !== 'string') {
+          return false;
+        }
+        try {
+          return JSON.parse(envelope.payload).previous_key_id === from;
+        } catch {
+          return false;
+        }
+      }
+    );
+    res.json({ envelopes });
+  });
+
+  // The admin keys this node encrypts to, so gateway users need not paste them
+  expressApp.get('/gateway/admin-keys', (_req, res) => {
+    res.json({ keys: adminKeys });
+  });
+
+  // Connected peers with heartbeat and traffic counters, plus federation links, for dashboards
+  expressApp.get('/status', (_req, res) => {
+    res.json({
+      serverId,
+      uptimeSeconds: Math.round(process.uptime()),
+      ...getSessionStatus(),
+      upstreams: getUpstreams(),
+    });
+  });
+
+  // Admin replies to a gateway report, each with the key envelope that opens it. Both are
+  // encrypted to the reply key only the submitting browser holds. Receipts are in the clear
+  expressApp.get('/gateway/inbox/:msgId', (req, res) => {
+    const replies = queryRecords<RelayEnvelope>('relayMessages', { type: 'reply', order: 'asc' })
+      .items.filter((envelope) => envelope.in_reply_to === req.params.msgId)
+      .map((envelope) => ({ envelope, key: getRecord('relayKeys', envelope.msg_id) }))
+      .filter((reply) => reply.key);
+    const receipts = queryRecords<RelayEnvelope>('relayMessages', { type: 'receipt', order: 'asc' }).items.filter(
+      (envelope) => envelope.in_reply_to === req.params.msgId
+    );
+    res.json({ replies, receipts });
+  });
+
+  expressApp.get('/gateway', (_req, res) => {
+    res.send(getGatewayHTML());
+  });
+
+  // QR decoder for gateway pages in browsers without BarcodeDetector, served here so scanning
+  // works on a mesh with no internet access
+  const jsQRPath = createRequire(import.meta.url).resolve('jsqr');
+  expressApp.get('/gateway/jsQR.js', (_req, res) => {
+    res.sendFile(jsQRPath);
+  });
+
+  // Offline basemap for the incident map. Without tiles the app draws its built-in outlines
+  const tilesDir = path.resolve(options.tilesDir || path.join(options.dataDir, 'tiles'));
+  const tileZooms = () => {
+    try {
+      return fs
+        .readdirSync(tilesDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && /^\d+$/.test(entry.name))
+        .map((entry) => Number(entry.name))
+        .sort((a, b) => a - b);
+    } catch {
+      return [];
+    }
+  };
+  expressApp.get('/map/tiles.json', (_req, res) => {
+    res.json({ zooms: tileZooms() });
+  });
+  // Tile sets are sparse, so a missing tile is a plain 404 rather than an error
+  expressApp.use('/map/tiles', express.static(tilesDir), (_req, res) => {
+    res.sendStatus(404);
+  });
+
+  const { staticDir } = options;
+  if (staticDir && fs.existsSync(staticDir)) {
+    expressApp.use(express.static(staticDir));
+    // Client-side routes of the web build
+    expressApp.get('*', (_req, res) => {
+      res.sendFile(path.join(staticDir, 'index.html'));
+    });
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  console.log(`🚀 NINE Mesh Server running on ${origin()}`);
+  console.log(`📡 WebSocket endpoint: ${origin().replace('http', 'ws')}/mesh`);
+  console.log(`🌐 PWA Gateway: ${origin()}/gateway`);
+  if (certificate) {
+    console.log(`🔐 Certificate fingerprint (SHA-256): ${certificate.fingerprint}`);
+  }
+  console.log(`🔑 Node key, for NINE_ALLOWED_NODES on other servers: ${nodeKey.publicKey}`);
+
+  startHeartbeat();
+  startFederation({
+    serverId,
+    peers: options.peers,
+    onFrame: handleFederatedFrame,
+    createSyncRequest,
+    meshSecret: options.meshSecret,
+    nodeKey,
+    verifyCertificate: (url, fingerprint) => checkPin(new URL(url).host, fingerprint) !== 'mismatch',
+  });
+
+  if (options.discovery !== false) {
+    startDiscovery({
+      nodeId: serverId,
+      port: options.port,
+      tls: Boolean(certificate),
+      // One link per pair is enough since frames flow both ways over it, so only the lower ID dials
+      onDiscovered: (server) => {
+        if (serverId < server.nodeId) {
+          dialServer(server.url);
+        }
+      },
+      onLost: (server) => {
+        if (!options.peers.includes(server.url)) {
+          dropServer(server.url);
+        }
+      },
+      onChange: options.onNearbyServersChange,
+    });
+  }
+
+  return {
+    serverId,
+    certificate,
+    nodeKey: nodeKey.publicKey,
+    origin,
+    tilesDir,
+    tileZooms,
+
+    setAdminKeys(statements) {
+      adminKeys = (Array.isArray(statements) ? statements : [])
+        .filter((statement) => typeof statement?.public_key === 'string' && typeof statement.key_id === 'string')
+        .map(({ key_id, public_key, signing_key, issued_at, signature }) => ({
+          key_id,
+          public_key,
+          signing_key,
+          issued_at,
+          signature,
+        }));
+    },
+
+    stop() {
+      stopDiscovery();
+      stopFederation();
+      stopHeartbeat();
+      wss.clients.forEach((ws) => ws.terminate());
+      wss.close();
+      return new Promise((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
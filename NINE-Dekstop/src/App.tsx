@@ -9,6 +9,23 @@ import { E2EForm } from './components/E2EForm';
 import { MessageCard } from './components/MessageCard';
 import { MeshGraph } from './components/MeshGraph';
 import { ConnectionStatus } from './components/ConnectionStatus';
+import { TransferStatus } from './components/TransferStatus';
+import { ServerTrust } from './components/ServerTrust';
+import { MapView } from './components/MapView';
+import { CaseConsole } from './components/CaseConsole';
+import { CasePanel } from './components/CasePanel';
+import { CaseManager } from './services/caseManager';
+import { ReplyService } from './services/replyService';
+import { ReceiptService } from './services/receiptService';
+import { GeoUtils } from './utils/geo';
+import { IncidentReports } from './services/incidentReports';
+import { RecipientGroups } from './components/RecipientGroups';
+import { KeyBackup } from './components/KeyBackup';
+import { AdminUnlock, AdminPassphrase } from './components/AdminLock';
+import { AdminKeyImport, AdminKeyQRCode } from './components/AdminKeyShare';
+import { AdminKeyShare } from './services/adminKeyShare';
+import { AdminVault } from './services/adminVault';
+import { KeyRotation } from './services/keyRotation';
 import {
   MessageSquare,
   Lock,
@@ -17,10 +34,18 @@ import {
   Shield,
   Eye,
   Download,
+  Paperclip,
+  MapPin,
 } from 'lucide-react';
-import { MessageEnvelope, DecryptedMessage } from './types/message';
+import {
+  MessageEnvelope,
+  DecryptedMessage,
+  IncidentCase,
+  ReceivedReply,
+  ReportDelivery,
+} from './types/message';
 
-type Tab = 'broadcasts' | 'e2e' | 'admin';
+type Tab = 'broadcasts' | 'e2e' | 'map' | 'admin';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('broadcasts');
@@ -29,10 +54,15 @@ function App() {
   const [broadcasts, setBroadcasts] = useState<MessageEnvelope[]>([]);
   const [e2eMessages, setE2eMessages] = useState<MessageEnvelope[]>([]);
   const [decryptedMessages, setDecryptedMessages] = useState<DecryptedMessage[]>([]);
+  const [cases, setCases] = useState<Record<string, IncidentCase>>({});
+  const [replies, setReplies] = useState<Record<string, ReceivedReply[]>>({});
+  const [deliveries, setDeliveries] = useState<Record<string, ReportDelivery>>({});
   const [selectedMessage, setSelectedMessage] = useState<MessageEnvelope | null>(null);
   const [selectedDecrypted, setSelectedDecrypted] = useState<DecryptedMessage | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [locked, setLocked] = useState(AdminVault.isLocked());
   const [adminPublicKey, setAdminPublicKey] = useState<string | null>(null);
+  const [adminSigningKey, setAdminSigningKey] = useState<string | null>(null);
 
   useEffect(() => {
     // Initialize mesh network
@@ -43,19 +73,23 @@ function App() {
     // Check admin status
     setIsAdmin(AdminKeyStore.isAdminMode());
     setAdminPublicKey(AdminKeyStore.getAdminPublicKey());
+    setAdminSigningKey(AdminKeyStore.getAdminSigningPublicKey());
 
     // Set up message listeners
     const broadcastService = new BroadcastService();
     const e2eService = new E2EService();
 
-    const refreshBroadcasts = () => {
-      setBroadcasts(broadcastService.getAllBroadcastsSorted());
+    const refreshBroadcasts = async () => {
+      setBroadcasts(await broadcastService.getAllBroadcastsSorted());
     };
 
-    const refreshE2E = () => {
-      setE2eMessages(e2eService.getE2EMessageEnvelopes());
+    const refreshE2E = async () => {
+      setE2eMessages(await e2eService.getE2EMessageEnvelopes());
+      setReplies(ReplyService.getRepliesByReport());
+      setDeliveries(ReceiptService.getDeliveries());
       if (AdminKeyStore.isAdminMode()) {
-        setDecryptedMessages(e2eService.getDecryptedMessages());
+        setDecryptedMessages(await e2eService.getDecryptedMessages());
+        setCases(await CaseManager.getCases());
       }
     };
 
@@ -64,16 +98,59 @@ function App() {
         refreshBroadcasts();
       } else if (message.type === 'e2e') {
         refreshE2E();
+      } else if (message.type === 'reply') {
+        ReplyService.openReply(message.msg_id).then(refreshE2E).catch(console.error);
+      } else if (message.type === 'receipt') {
+        ReceiptService.applyReceipt(message).then(refreshE2E).catch(console.error);
+      } else if (message.type === 'key_rotation') {
+        KeyRotation.applyRotation(message)
+          .then((applied) => {
+            if (applied) {
+              setAdminPublicKey(AdminKeyStore.getAdminPublicKey());
+            }
+          })
+          .catch(console.error);
+      }
+    });
+
+    meshNetwork.onKeyEnvelope((key) => {
+      if (key.to === 'reporter') {
+        ReplyService.openReply(key.msg_id).then(refreshE2E).catch(console.error);
+      } else {
+        refreshE2E();
       }
     });
 
-    meshNetwork.onKeyEnvelope(() => {
-      refreshE2E();
+    meshNetwork.onRelayed((msgId) => {
+      if (ReceiptService.markRelayed(msgId)) {
+        refreshE2E();
+      }
+    });
+
+    meshNetwork.onRejected((msgId, reason) => {
+      if (ReceiptService.markRejected(msgId, reason)) {
+        refreshE2E();
+      }
+    });
+
+    AdminVault.onLockChange(async (isLocked) => {
+      setLocked(isLocked);
+      if (isLocked) {
+        setDecryptedMessages([]);
+        setCases({});
+        setSelectedDecrypted(null);
+      } else {
+        await e2eService.decryptPendingMessages();
+        refreshE2E();
+      }
     });
 
     // Initial load
     refreshBroadcasts();
     refreshE2E();
+    Promise.all([ReplyService.openPendingReplies(), ReceiptService.applyPendingReceipts()])
+      .then(refreshE2E)
+      .catch(console.error);
 
       // Poll for updates
       const interval = setInterval(() => {
@@ -87,19 +164,45 @@ function App() {
     initializeMesh();
   }, []);
 
+  useEffect(() => {
+    // Keep the admin key served to gateway pages current; it gets signed once admin mode is unlocked
+    AdminKeyShare.publish().catch(console.error);
+  }, [adminPublicKey, adminSigningKey, locked]);
+
+  useEffect(() => {
+    // Any interaction postpones the admin auto-lock
+    const events = ['mousemove', 'keydown', 'click', 'scroll'];
+    const handleActivity = () => AdminVault.touch();
+    events.forEach((event) => window.addEventListener(event, handleActivity));
+    return () => events.forEach((event) => window.removeEventListener(event, handleActivity));
+  }, []);
+
   const handleInitAdmin = async () => {
     try {
       await AdminKeyGenerator.initializeAdminMode();
       setIsAdmin(true);
       setAdminPublicKey(AdminKeyStore.getAdminPublicKey());
+      setAdminSigningKey(AdminKeyStore.getAdminSigningPublicKey());
     } catch (error) {
       alert('Failed to initialize admin mode: ' + (error instanceof Error ? error.message : String(error)));
     }
   };
 
+  const handleRotateKey = async () => {
+    if (!confirm('Rotate the admin key? Nodes that trust you will switch to the new key, and older messages stay readable with the retired one.')) {
+      return;
+    }
+    try {
+      await KeyRotation.rotateAdminKey();
+      setAdminPublicKey(AdminKeyStore.getAdminPublicKey());
+    } catch (error) {
+      alert('Failed to rotate admin key: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
   const handleExportData = () => {
-    import('./services/messageStore').then(({ MessageStore }) => {
-      const data = MessageStore.exportData();
+    import('./services/messageStore').then(async ({ MessageStore }) => {
+      const data = await MessageStore.exportData();
       const blob = new Blob([data], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -110,9 +213,9 @@ function App() {
     });
   };
 
-  const handleViewDecrypted = (msg: MessageEnvelope) => {
+  const handleViewDecrypted = async (msg: MessageEnvelope) => {
     const e2eService = new E2EService();
-    const decrypted = e2eService.getDecryptedMessageById(msg.msg_id);
+    const decrypted = await e2eService.getDecryptedMessageById(msg.msg_id);
     if (decrypted) {
       setSelectedDecrypted(decrypted);
     } else {
@@ -135,7 +238,11 @@ function App() {
                 <p className="text-xs text-gray-500">No-Infrastructure Network eXchange</p>
               </div>
             </div>
-            <ConnectionStatus />
+            <div className="flex items-center gap-3">
+              <TransferStatus />
+              <ServerTrust />
+              <ConnectionStatus />
+            </div>
           </div>
         </div>
       </header>
@@ -166,6 +273,17 @@ function App() {
               <Lock className="w-4 h-4 inline mr-2" />
               Encrypted ({e2eMessages.length})
             </button>
+            <button
+              onClick={() => setActiveTab('map')}
+              className={`px-4 py-3 font-medium text-sm transition-colors border-b-2 ${
+                activeTab === 'map'
+                  ? 'border-green-600 text-green-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <MapPin className="w-4 h-4 inline mr-2" />
+              Map
+            </button>
             <button
               onClick={() => setActiveTab('admin')}
               className={`px-4 py-3 font-medium text-sm transition-colors border-b-2 ${
@@ -236,6 +354,12 @@ function App() {
               </button>
             </div>
 
+            {isAdmin && locked && (
+              <div className="mb-6 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                Admin mode is locked. Unlock it in the Admin tab to see decrypted messages.
+              </div>
+            )}
+
             {isAdmin && decryptedMessages.length > 0 && (
               <div className="mb-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Decrypted Messages</h3>
@@ -259,7 +383,11 @@ function App() {
                         </div>
                       )}
                       <div className="mt-3">
-                        <MeshGraph messagePath={msg.messagePath} keyPath={msg.keyPath} />
+                        <MeshGraph
+                          messagePath={msg.messagePath}
+                          keyPath={msg.keyPath}
+                          msgId={msg.msg_id}
+                        />
                       </div>
                     </div>
                   ))}
@@ -290,6 +418,8 @@ function App() {
                     <MessageCard
                       key={msg.msg_id}
                       message={msg}
+                      replies={replies[msg.msg_id]}
+                      delivery={deliveries[msg.msg_id]}
                       onViewDetails={() => handleViewDecrypted(msg)}
                     />
                   ))}
@@ -299,12 +429,27 @@ function App() {
           </div>
         )}
 
+        {/* Map Tab */}
+        {activeTab === 'map' && (
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-4">Incident Map</h2>
+            <MapView
+              broadcasts={broadcasts}
+              reports={decryptedMessages}
+              onSelectBroadcast={setSelectedMessage}
+              onSelectReport={setSelectedDecrypted}
+            />
+          </div>
+        )}
+
         {/* Admin Tab */}
         {activeTab === 'admin' && (
           <div>
             <h2 className="text-2xl font-bold text-gray-900 mb-6">Admin Dashboard</h2>
 
-            {!isAdmin ? (
+            {isAdmin && locked ? (
+              <AdminUnlock />
+            ) : !isAdmin ? (
               <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
                 <Shield className="w-16 h-16 text-amber-500 mx-auto mb-4" />
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">Admin Mode Not Active</h3>
@@ -317,6 +462,25 @@ function App() {
                 >
                   Initialize Admin Mode
                 </button>
+
+                <div className="mt-8 pt-6 border-t border-gray-200 text-left space-y-3">
+                  <h4 className="font-semibold text-gray-900">Trust an Existing Admin</h4>
+                  <p className="text-sm text-gray-600">
+                    Scan the QR code on your coordinating admin's Admin tab, or paste the key link they
+                    shared, to send them encrypted messages and verify their official alerts.
+                  </p>
+                  <AdminKeyImport
+                    onTrusted={() => {
+                      setAdminPublicKey(AdminKeyStore.getAdminPublicKey());
+                      setAdminSigningKey(AdminKeyStore.getAdminSigningPublicKey());
+                    }}
+                  />
+                  {adminPublicKey && (
+                    <div className="text-xs text-gray-500 font-mono break-all">
+                      Current admin key: {adminPublicKey}
+                    </div>
+                  )}
+                </div>
               </div>
             ) : (
               <div className="space-y-6">
@@ -338,6 +502,11 @@ function App() {
                   <p className="text-sm text-gray-600 mb-3">
                     Share this public key with users who want to send encrypted messages:
                   </p>
+                  {adminPublicKey && (
+                    <div className="mb-4">
+                      <AdminKeyQRCode publicKey={adminPublicKey} signingKey={adminSigningKey} />
+                    </div>
+                  )}
                   <div className="bg-gray-50 rounded-lg p-4 font-mono text-xs break-all">
                     {adminPublicKey}
                   </div>
@@ -352,8 +521,48 @@ function App() {
                   >
                     Copy to Clipboard
                   </button>
+                  <button
+                    onClick={handleRotateKey}
+                    className="mt-3 ml-4 text-sm text-amber-600 hover:text-amber-700 font-medium"
+                  >
+                    Rotate Key
+                  </button>
+                  {AdminKeyStore.getRetiredKeys().length > 0 && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      {AdminKeyStore.getRetiredKeys().length} retired key(s) kept for older messages
+                    </p>
+                  )}
+
+                  <p className="text-sm text-gray-600 mt-6 mb-3">
+                    Admin Signing Key, used by nodes to verify your official alerts:
+                  </p>
+                  <div className="bg-gray-50 rounded-lg p-4 font-mono text-xs break-all">
+                    {adminSigningKey}
+                  </div>
+                  <button
+                    onClick={() => {
+                      if (adminSigningKey) {
+                        navigator.clipboard.writeText(adminSigningKey);
+                        alert('Signing key copied to clipboard!');
+                      }
+                    }}
+                    className="mt-3 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    Copy to Clipboard
+                  </button>
                 </div>
 
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Incident Cases</h3>
+                  {decryptedMessages.length === 0 ? (
+                    <p className="text-sm text-gray-500">No decrypted reports yet</p>
+                  ) : (
+                    <CaseConsole messages={decryptedMessages} cases={cases} onSelect={setSelectedDecrypted} />
+                  )}
+                </div>
+
+                <AdminPassphrase />
+
                 <div className="bg-white rounded-lg border border-gray-200 p-6">
                   <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
                     <Download className="w-5 h-5" />
@@ -395,6 +604,26 @@ function App() {
                 </div>
               </div>
             )}
+
+            {!(isAdmin && locked) && (
+              <>
+                <div className="mt-6">
+                  <KeyBackup
+                    isAdmin={isAdmin}
+                    onRestored={() => {
+                      setIsAdmin(true);
+                      setAdminPublicKey(AdminKeyStore.getAdminPublicKey());
+                      setAdminSigningKey(AdminKeyStore.getAdminSigningPublicKey());
+                      setLocked(AdminVault.isLocked());
+                    }}
+                  />
+                </div>
+
+                <div className="mt-6">
+                  <RecipientGroups />
+                </div>
+              </>
+            )}
           </div>
         )}
       </main>
@@ -426,7 +655,11 @@ function App() {
                     </div>
                   )}
                   <div className="mt-4">
-                    <MeshGraph messagePath={selectedMessage.hops} />
+                    <MeshGraph
+                      messagePath={selectedMessage.hops}
+                      msgId={selectedMessage.msg_id}
+                      senderKey={selectedMessage.sender_key}
+                    />
                   </div>
                 </div>
               ) : (
@@ -438,7 +671,11 @@ function App() {
                     This message is encrypted. Only admins can decrypt it.
                   </p>
                   <div className="mt-4">
-                    <MeshGraph messagePath={selectedMessage.hops} />
+                    <MeshGraph
+                      messagePath={selectedMessage.hops}
+                      msgId={selectedMessage.msg_id}
+                      senderKey={selectedMessage.sender_key}
+                    />
                   </div>
                 </div>
               )}
@@ -464,15 +701,60 @@ function App() {
               <div>
                 <p className="text-gray-900 font-medium">{selectedDecrypted.content}</p>
               </div>
+              {selectedDecrypted.report && (
+                <div className="grid grid-cols-2 gap-2 text-sm bg-gray-50 rounded-lg p-3">
+                  <div><strong>Severity:</strong> {IncidentReports.label(selectedDecrypted.report.severity)}</div>
+                  <div><strong>Status:</strong> {IncidentReports.label(selectedDecrypted.report.status)}</div>
+                  <div><strong>People:</strong> {selectedDecrypted.report.people}</div>
+                  <div><strong>Injured:</strong> {selectedDecrypted.report.injuries}</div>
+                  {selectedDecrypted.report.needs.length > 0 && (
+                    <div className="col-span-2">
+                      <strong>Needs:</strong> {selectedDecrypted.report.needs.map(IncidentReports.label).join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
               {selectedDecrypted.meta && (
                 <div className="space-y-2 text-sm">
                   {selectedDecrypted.meta.name && <div><strong>Name:</strong> {selectedDecrypted.meta.name}</div>}
                   {selectedDecrypted.meta.location && <div><strong>Location:</strong> {selectedDecrypted.meta.location}</div>}
+                  {GeoUtils.isValid(selectedDecrypted.meta.coords) && <div><strong>Coordinates:</strong> {GeoUtils.format(selectedDecrypted.meta.coords)}</div>}
                   {selectedDecrypted.meta.contact && <div><strong>Contact:</strong> {selectedDecrypted.meta.contact}</div>}
                 </div>
               )}
+              {selectedDecrypted.image && (
+                <img
+                  src={selectedDecrypted.image}
+                  alt={selectedDecrypted.attachment?.name ?? 'Attached photo'}
+                  className="max-h-96 rounded-md border border-gray-200"
+                />
+              )}
+              {selectedDecrypted.attachment?.data && (
+                <a
+                  href={selectedDecrypted.attachment.data}
+                  download={selectedDecrypted.attachment.name}
+                  className="inline-flex items-center gap-2 text-sm text-purple-600 hover:text-purple-700"
+                >
+                  <Paperclip className="w-4 h-4" />
+                  {selectedDecrypted.attachment.name} ({Math.ceil(selectedDecrypted.attachment.size / 1024)} KB)
+                </a>
+              )}
+              {selectedDecrypted.meta?.imageRef && !selectedDecrypted.attachment && (
+                <p className="text-sm text-gray-500">Attachment still arriving...</p>
+              )}
+              <CasePanel
+                msgId={selectedDecrypted.msg_id}
+                canReply={!!selectedDecrypted.replyKey}
+                onChange={(incidentCase) =>
+                  setCases((current) => ({ ...current, [incidentCase.msg_id]: incidentCase }))
+                }
+              />
               <div className="mt-4">
-                <MeshGraph messagePath={selectedDecrypted.messagePath} keyPath={selectedDecrypted.keyPath} />
+                <MeshGraph
+                  messagePath={selectedDecrypted.messagePath}
+                  keyPath={selectedDecrypted.keyPath}
+                  msgId={selectedDecrypted.msg_id}
+                />
               </div>
             </div>
           </div>
@@ -483,9 +765,9 @@ function App() {
       {showBroadcastForm && (
         <BroadcastForm
           onClose={() => setShowBroadcastForm(false)}
-          onSuccess={() => {
+          onSuccess={async () => {
             const service = new BroadcastService();
-            setBroadcasts(service.getAllBroadcastsSorted());
+            setBroadcasts(await service.getAllBroadcastsSorted());
           }}
         />
       )}
@@ -493,11 +775,11 @@ function App() {
       {showE2EForm && (
         <E2EForm
           onClose={() => setShowE2EForm(false)}
-          onSuccess={() => {
+          onSuccess={async () => {
             const service = new E2EService();
-            setE2eMessages(service.getE2EMessageEnvelopes());
+            setE2eMessages(await service.getE2EMessageEnvelopes());
             if (AdminKeyStore.isAdminMode()) {
-              setDecryptedMessages(service.getDecryptedMessages());
+              setDecryptedMessages(await service.getDecryptedMessages());
             }
           }}
         />
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { AdminKeyShare, SharedAdminKeys } from '../services/adminKeyShare';
+import { CryptoUtils } from '../utils/crypto';
+import { Camera, QrCode, ShieldCheck, X } from 'lucide-react';
+
+interface AdminKeyQRCodeProps {
+  publicKey: string;
+  signingKey: string | null;
+}
+
+// The admin's keys and gateway address as one QR code, with the fingerprint to read out
+export function AdminKeyQRCode({ publicKey, signingKey }: AdminKeyQRCodeProps) {
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [fingerprint, setFingerprint] = useState('');
+
+  useEffect(() => {
+    const render = async () => {
+      const gatewayUrl = window.electronAPI ? await window.electronAPI.getGatewayUrl() : null;
+      const link = await AdminKeyShare.createLink(gatewayUrl);
+      setQrCode(await QRCode.toDataURL(link, { margin: 1, width: 240 }));
+      setFingerprint(await CryptoUtils.adminFingerprint(publicKey, signingKey));
+    };
+    render().catch(console.error);
+  }, [publicKey, signingKey]);
+
+  if (!qrCode) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <img src={qrCode} alt="Admin key QR code" className="w-48 h-48" />
+      <div className="space-y-2 text-sm text-gray-600">
+        <p>
+          Scan with a phone camera to open the gateway with this key, or with <strong>Scan QR
+          Code</strong> in another NINE app.
+        </p>
+        <p>Fingerprint of the encryption and signing keys, for whoever scans it to compare:</p>
+        <p className="font-mono text-base text-gray-900">{AdminKeyShare.formatFingerprint(fingerprint)}</p>
+      </div>
+    </div>
+  );
+}
+
+interface AdminKeyImportProps {
+  onTrusted: () => void;
+}
+
+/**
+ * Load admin keys from the QR code on the admin's screen, by camera or by pasting the link.
+ * Nothing is trusted until the user confirms the fingerprint matches the one the admin shows.
+ */
+export function AdminKeyImport({ onTrusted }: AdminKeyImportProps) {
+  const [scanning, setScanning] = useState(false);
+  const [link, setLink] = useState('');
+  const [pending, setPending] = useState<SharedAdminKeys | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (text: string) => {
+    setError(null);
+    try {
+      setPending(await AdminKeyShare.parse(text));
+      setLink('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleConfirm = () => {
+    if (pending) {
+      AdminKeyShare.trust(pending);
+      setPending(null);
+      onTrusted();
+    }
+  };
+
+  if (pending) {
+    return (
+      <div className="border border-amber-300 bg-amber-50 rounded-lg p-4 space-y-3">
+        <div className="font-semibold text-gray-900 flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-amber-600" />
+          Confirm the admin key
+        </div>
+        <p className="text-sm text-gray-700">
+          Compare this fingerprint with the one on the admin's screen, or have them read it out.
+          Only continue if every group matches.
+        </p>
+        <p className="font-mono text-lg text-gray-900">{AdminKeyShare.formatFingerprint(pending.fingerprint)}</p>
+        {pending.gatewayUrl && <p className="text-xs text-gray-500 break-all">Gateway: {pending.gatewayUrl}</p>}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleConfirm}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm"
+          >
+            Fingerprints Match
+          </button>
+          <button
+            type="button"
+            onClick={() => setPending(null)}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {scanning ? (
+        <QRScanner
+          onScan={(text) => {
+            setScanning(false);
+            load(text);
+          }}
+          onClose={() => setScanning(false)}
+        />
+      ) : (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setScanning(true)}
+            className="px-3 py-2 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors flex items-center gap-1"
+          >
+            <Camera className="w-4 h-4" />
+            Scan QR Code
+          </button>
+          <input
+            type="text"
+            value={link}
+            onChange={(e) => setLink(e.target.value)}
+            placeholder="or paste the admin key link"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-xs font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <button
+            type="button"
+            onClick={() => load(link)}
+            disabled={!link.trim()}
+            className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors flex items-center gap-1"
+          >
+            <QrCode className="w-4 h-4" />
+            Load
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+interface QRScannerProps {
+  onScan: (text: string) => void;
+  onClose: () => void;
+}
+
+// Camera preview that reports the first QR code it decodes
+function QRScanner({ onScan, onClose }: QRScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let closed = false;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const scan = () => {
+      const video = videoRef.current;
+      if (video && context && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height);
+        if (code?.data) {
+          onScanRef.current(code.data);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((opened) => {
+        stream = opened;
+        if (closed) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = opened;
+          videoRef.current.play().catch(console.error);
+        }
+        frame = requestAnimationFrame(scan);
+      })
+      .catch((err) => setError(`Camera unavailable: ${err instanceof Error ? err.message : String(err)}`));
+
+    return () => {
+      closed = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="relative bg-black rounded-lg overflow-hidden">
+      <video ref={videoRef} muted playsInline className="w-full max-h-72 object-contain" />
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 bg-white/80 rounded-full text-gray-700 hover:bg-white"
+      >
+        <X className="w-4 h-4" />
+      </button>
+      {error && <p className="absolute bottom-0 inset-x-0 p-2 text-sm text-white bg-red-600/80">{error}</p>}
+    </div>
+  );
+}
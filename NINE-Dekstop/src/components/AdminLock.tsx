@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { AdminVault } from '../services/adminVault';
+import { Lock, Unlock, KeyRound } from 'lucide-react';
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export function AdminUnlock() {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await AdminVault.unlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock admin mode');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-8 max-w-md mx-auto text-center">
+      <Lock className="w-16 h-16 text-amber-500 mx-auto mb-4" />
+      <h3 className="text-xl font-semibold text-gray-900 mb-2">Admin Mode Locked</h3>
+      <p className="text-gray-600 mb-6">
+        Enter the admin passphrase to read decrypted reports and use the admin keys.
+      </p>
+      <form onSubmit={handleUnlock} className="space-y-3">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500"
+          placeholder="Admin passphrase"
+        />
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={unlocking || !passphrase}
+          className="w-full px-6 py-3 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors font-medium flex items-center justify-center gap-2"
+        >
+          <Unlock className="w-4 h-4" />
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function AdminPassphrase() {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const configured = AdminVault.isConfigured();
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await AdminVault.setup(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set passphrase');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <KeyRound className="w-5 h-5" />
+        Admin Passphrase
+      </h3>
+
+      {configured ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            The admin keys and decrypted reports are encrypted at rest. Admin mode locks after{' '}
+            {AdminVault.AUTO_LOCK_MS / 60000} minutes without activity.
+          </p>
+          <button
+            onClick={() => AdminVault.lock()}
+            className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-colors text-sm flex items-center gap-2"
+          >
+            <Lock className="w-4 h-4" />
+            Lock Now
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSetup} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Decrypted reports and the admin private key are stored unencrypted on this machine.
+            Set a passphrase to encrypt them and lock admin mode when the console is left alone.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+            placeholder="New passphrase"
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+            placeholder="Confirm passphrase"
+          />
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !passphrase}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors text-sm"
+          >
+            {saving ? 'Encrypting...' : 'Set Passphrase'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
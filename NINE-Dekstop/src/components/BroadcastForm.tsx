@@ -1,6 +1,10 @@
 import { useState } from 'react';
 import { BroadcastService } from '../services/broadcastService';
-import { Send, X } from 'lucide-react';
+import { AdminKeyStore } from '../services/adminKeyStore';
+import { AdminVault } from '../services/adminVault';
+import { AlertPriority, GeoPoint } from '../types/message';
+import { LocationField } from './LocationField';
+import { Send, X, Pin } from 'lucide-react';
 
 interface BroadcastFormProps {
   onClose: () => void;
@@ -14,8 +18,13 @@ export function BroadcastForm({ onClose, onSuccess }: BroadcastFormProps) {
     contact: '',
     message: '',
   });
+  const [official, setOfficial] = useState(false);
+  const [coords, setCoords] = useState<GeoPoint | null>(null);
+  const [priority, setPriority] = useState<AlertPriority>('info');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const canSendOfficial =
+    AdminKeyStore.isAdminMode() && AdminKeyStore.hasAdminSigningKeys() && !AdminVault.isLocked();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,11 +33,16 @@ export function BroadcastForm({ onClose, onSuccess }: BroadcastFormProps) {
 
     try {
       const broadcastService = new BroadcastService();
-      await broadcastService.createBroadcast(formData.message, {
-        name: formData.name || undefined,
-        location: formData.location || undefined,
-        contact: formData.contact || undefined,
-      });
+      await broadcastService.createBroadcast(
+        formData.message,
+        {
+          name: formData.name || undefined,
+          location: formData.location || undefined,
+          coords: coords ?? undefined,
+          contact: formData.contact || undefined,
+        },
+        official ? priority : undefined
+      );
       onSuccess();
       onClose();
     } catch (err) {
@@ -78,6 +92,8 @@ export function BroadcastForm({ onClose, onSuccess }: BroadcastFormProps) {
             />
           </div>
 
+          <LocationField value={coords} onChange={setCoords} accent="blue" />
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Contact Info (optional)
@@ -105,6 +121,31 @@ export function BroadcastForm({ onClose, onSuccess }: BroadcastFormProps) {
             />
           </div>
 
+          {canSendOfficial && (
+            <div className="bg-amber-50 border border-amber-200 rounded-md p-3 space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium text-amber-900">
+                <input
+                  type="checkbox"
+                  checked={official}
+                  onChange={(e) => setOfficial(e.target.checked)}
+                />
+                <Pin className="w-4 h-4" />
+                Official alert (signed with admin key)
+              </label>
+              {official && (
+                <select
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value as AlertPriority)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="info">Info</option>
+                  <option value="warning">Warning</option>
+                  <option value="evacuation">Evacuation</option>
+                </select>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
               {error}
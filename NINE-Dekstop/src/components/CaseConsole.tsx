@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { CaseStatus, DecryptedMessage, IncidentCase } from '../types/message';
+import { CaseManager } from '../services/caseManager';
+import { TriageTable } from './TriageTable';
+
+interface CaseConsoleProps {
+  messages: DecryptedMessage[];
+  cases: Record<string, IncidentCase>;
+  onSelect: (message: DecryptedMessage) => void;
+}
+
+const COUNTER_STYLES: Record<CaseStatus, string> = {
+  open: 'text-red-700',
+  acknowledged: 'text-yellow-700',
+  dispatched: 'text-blue-700',
+  resolved: 'text-green-700',
+};
+
+const UNASSIGNED = '';
+
+// Status counters double as filters; the assignee filter narrows the same list
+export function CaseConsole({ messages, cases, onSelect }: CaseConsoleProps) {
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState<string | null>(null);
+
+  // Reports nobody has acted on yet count as open and unassigned
+  const statusOf = (message: DecryptedMessage) => cases[message.msg_id]?.status ?? 'open';
+  const assigneeOf = (message: DecryptedMessage) => cases[message.msg_id]?.assignee ?? UNASSIGNED;
+
+  const counts = CaseManager.STATUSES.reduce(
+    (totals, status) => ({ ...totals, [status]: 0 }),
+    {} as Record<CaseStatus, number>
+  );
+  messages.forEach((message) => counts[statusOf(message)]++);
+
+  const assignees = Array.from(new Set(messages.map(assigneeOf).filter(Boolean))).sort();
+
+  const filtered = messages.filter(
+    (message) =>
+      (statusFilter === null || statusOf(message) === statusFilter) &&
+      (assigneeFilter === null || assigneeOf(message) === assigneeFilter)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-2">
+        {CaseManager.STATUSES.map((status) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+            className={`rounded-lg border p-3 text-left transition-colors ${
+              statusFilter === status ? 'border-gray-900 bg-gray-50' : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <div className={`text-2xl font-bold ${COUNTER_STYLES[status]}`}>{counts[status]}</div>
+            <div className="text-sm text-gray-600">{CaseManager.label(status)}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <label className="text-gray-600" htmlFor="case-assignee-filter">
+          Assignee
+        </label>
+        <select
+          id="case-assignee-filter"
+          value={assigneeFilter === null ? 'all' : `=${assigneeFilter}`}
+          onChange={(e) => setAssigneeFilter(e.target.value === 'all' ? null : e.target.value.slice(1))}
+          className="px-2 py-1 border border-gray-300 rounded-lg"
+        >
+          <option value="all">Anyone</option>
+          <option value={`=${UNASSIGNED}`}>Unassigned</option>
+          {assignees.map((name) => (
+            <option key={name} value={`=${name}`}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {(statusFilter !== null || assigneeFilter !== null) && (
+          <button
+            onClick={() => {
+              setStatusFilter(null);
+              setAssigneeFilter(null);
+            }}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            Clear filters
+          </button>
+        )}
+        <span className="ml-auto text-gray-500">
+          {filtered.length} of {messages.length} cases
+        </span>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-gray-500">No cases match these filters</p>
+      ) : (
+        <TriageTable messages={filtered} cases={cases} onSelect={onSelect} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { CaseStatus, IncidentCase } from '../types/message';
+import { CaseManager } from '../services/caseManager';
+import { ReplyService } from '../services/replyService';
+import { ReceiptService } from '../services/receiptService';
+import { ClipboardList, History, Send, UserCheck } from 'lucide-react';
+
+interface CasePanelProps {
+  msgId: string;
+  canReply: boolean;
+  onChange: (incidentCase: IncidentCase) => void;
+}
+
+const STATUS_STYLES: Record<CaseStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  acknowledged: 'bg-yellow-100 text-yellow-800',
+  dispatched: 'bg-blue-100 text-blue-800',
+  resolved: 'bg-green-100 text-green-800',
+};
+
+export function CasePanel({ msgId, canReply, onChange }: CasePanelProps) {
+  const [incidentCase, setIncidentCase] = useState<IncidentCase | null>(null);
+  const [assignee, setAssignee] = useState('');
+  const [note, setNote] = useState('');
+  const [reply, setReply] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    CaseManager.getCase(msgId)
+      .then((loaded) => {
+        setIncidentCase(loaded);
+        setAssignee(loaded.assignee ?? '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }, [msgId]);
+
+  const apply = async (action: () => Promise<IncidentCase>) => {
+    setError(null);
+    try {
+      const updated = await action();
+      setIncidentCase(updated);
+      onChange(updated);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  };
+
+  const handleStatus = (status: CaseStatus) =>
+    apply(async () => {
+      const updated = await CaseManager.setStatus(msgId, status);
+      // The first move off 'open' tells the reporter someone is on it
+      if (status !== 'open' && !updated.audit.some((event) => event.action === 'receipt')) {
+        return ReceiptService.acknowledge(msgId);
+      }
+      return updated;
+    });
+
+  const handleAssign = (e: React.FormEvent) => {
+    e.preventDefault();
+    apply(() => CaseManager.assign(msgId, assignee));
+  };
+
+  const handleNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await apply(() => CaseManager.addNote(msgId, note))) {
+      setNote('');
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSendingReply(true);
+    const sent = await apply(async () => {
+      await ReplyService.sendReply(msgId, reply);
+      return CaseManager.recordReply(msgId, reply);
+    });
+    setSendingReply(false);
+    if (sent) {
+      setReply('');
+    }
+  };
+
+  if (!incidentCase) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null;
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+        <ClipboardList className="w-5 h-5" />
+        Case
+      </h3>
+
+      <div className="flex flex-wrap gap-2">
+        {CaseManager.STATUSES.map((status) => (
+          <button
+            key={status}
+            onClick={() => handleStatus(status)}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              incidentCase.status === status
+                ? STATUS_STYLES[status]
+                : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+            }`}
+          >
+            {CaseManager.label(status)}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleAssign} className="flex gap-2">
+        <input
+          type="text"
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          placeholder="Responder or team"
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-1"
+        >
+          <UserCheck className="w-4 h-4" />
+          {assignee.trim() ? 'Assign' : 'Unassign'}
+        </button>
+      </form>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700">Internal notes</div>
+        {incidentCase.notes.map((existing, index) => (
+          <div key={index} className="bg-yellow-50 rounded-lg p-2 text-sm">
+            <p className="text-gray-900 whitespace-pre-wrap">{existing.text}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {existing.author} · {new Date(existing.at).toLocaleString()}
+            </p>
+          </div>
+        ))}
+        <form onSubmit={handleNote} className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Only visible on this admin console"
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={!note.trim()}
+            className="px-3 py-1 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            Add Note
+          </button>
+        </form>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700">Reply to reporter</div>
+        {canReply ? (
+          <form onSubmit={handleReply} className="flex gap-2">
+            <input
+              type="text"
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              maxLength={ReplyService.MAX_REPLY}
+              placeholder="e.g. Help is coming, stay put"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={!reply.trim() || sendingReply}
+              className="px-3 py-2 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 flex items-center gap-1"
+            >
+              <Send className="w-4 h-4" />
+              {sendingReply ? 'Sending...' : 'Send'}
+            </button>
+          </form>
+        ) : (
+          <p className="text-sm text-gray-500">
+            This report has no reply channel (sent from the gateway or an older node).
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {incidentCase.audit.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-sm font-medium text-gray-700 flex items-center gap-1">
+            <History className="w-4 h-4" />
+            Audit trail
+          </div>
+          <ul className="text-xs text-gray-600 space-y-1">
+            {[...incidentCase.audit].reverse().map((event, index) => (
+              <li key={index}>
+                <span className="text-gray-400">{new Date(event.at).toLocaleString()}</span>{' '}
+                {event.detail} <span className="text-gray-400">by {event.by}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
-import { MeshNetwork } from '../services/meshNetwork';
-import { Wifi, WifiOff } from 'lucide-react';
+import { MeshNetwork, Refusal } from '../services/meshNetwork';
+import { NodeIdentity } from '../services/nodeIdentity';
+import { ShieldAlert, Wifi, WifiOff } from 'lucide-react';
 import { useState, useEffect } from 'react';
 
 export function ConnectionStatus() {
   const [connected, setConnected] = useState(false);
   const [peerCount, setPeerCount] = useState(0);
+  const [refusal, setRefusal] = useState<Refusal | null>(null);
+  const [nodeKey, setNodeKey] = useState('');
 
   useEffect(() => {
     const meshNetwork = MeshNetwork.getInstance();
@@ -15,6 +18,7 @@ export function ConnectionStatus() {
       const updateStatus = () => {
         setConnected(meshNetwork.isConnected());
         setPeerCount(meshNetwork.getPeers().length);
+        setRefusal(meshNetwork.getRefusal());
       };
 
       meshNetwork.onPeerDiscovered(() => updateStatus());
@@ -25,6 +29,7 @@ export function ConnectionStatus() {
     };
 
     initAndUpdate();
+    NodeIdentity.getPublicKey().then(setNodeKey).catch(console.error);
 
     return () => {
       if (interval) {
@@ -42,6 +47,21 @@ export function ConnectionStatus() {
             Connected {peerCount > 0 && `(${peerCount} peer${peerCount !== 1 ? 's' : ''})`}
           </span>
         </>
+      ) : refusal ? (
+        // The server operator needs the node key to add this node to its allowlist
+        <span
+          className="flex items-center gap-2"
+          title={
+            refusal.reason === 'unauthorized'
+              ? `${refusal.message}\nNode key: ${nodeKey}`
+              : refusal.message
+          }
+        >
+          <ShieldAlert className="w-4 h-4 text-red-600" />
+          <span className="text-gray-700">
+            {refusal.reason === 'certificate' ? 'Certificate changed' : 'Not allowed to join'}
+          </span>
+        </span>
       ) : (
         <>
           <WifiOff className="w-4 h-4 text-red-600" />
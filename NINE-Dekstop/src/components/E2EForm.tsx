@@ -1,7 +1,12 @@
 import { useState } from 'react';
 import { E2EService } from '../services/e2eService';
 import { AdminKeyStore } from '../services/adminKeyStore';
-import { Send, X, Lock } from 'lucide-react';
+import { RecipientGroupStore } from '../services/recipientGroupStore';
+import { IncidentReports } from '../services/incidentReports';
+import { GeoPoint, IncidentNeed, IncidentSeverity } from '../types/message';
+import { LocationField } from './LocationField';
+import { AdminKeyImport } from './AdminKeyShare';
+import { Send, X, Lock, Paperclip } from 'lucide-react';
 
 interface E2EFormProps {
   onClose: () => void;
@@ -15,8 +20,20 @@ export function E2EForm({ onClose, onSuccess }: E2EFormProps) {
     contact: '',
     message: '',
   });
+  const [triage, setTriage] = useState({
+    people: '1',
+    injuries: '0',
+    severity: 'moderate' as IncidentSeverity,
+  });
+  const [needs, setNeeds] = useState<IncidentNeed[]>([]);
+  const [groupId, setGroupId] = useState('');
+  const [coords, setCoords] = useState<GeoPoint | null>(null);
+  const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [hasAdminKey, setHasAdminKey] = useState(AdminKeyStore.getAdminPublicKey() !== null);
+  const groups = RecipientGroupStore.getGroups();
+  const selectedGroup = groups.find((group) => group.id === groupId);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -25,16 +42,44 @@ export function E2EForm({ onClose, onSuccess }: E2EFormProps) {
 
     try {
       const adminPublicKey = AdminKeyStore.getAdminPublicKey();
-      if (!adminPublicKey) {
+      if (!groupId && !adminPublicKey) {
         throw new Error('Admin public key not available. Please set up admin mode first.');
       }
 
-      const e2eService = new E2EService();
-      await e2eService.createE2EMessage(formData.message, {
-        name: formData.name || undefined,
-        location: formData.location || undefined,
-        contact: formData.contact || undefined,
+      if (file && file.size > E2EService.MAX_ATTACHMENT_BYTES) {
+        throw new Error(
+          `Attachments are limited to ${E2EService.MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+        );
+      }
+      const attachment = file
+        ? {
+            name: file.name,
+            mime: file.type || 'application/octet-stream',
+            data: new Uint8Array(await file.arrayBuffer()),
+          }
+        : undefined;
+
+      const report = IncidentReports.create({
+        description: formData.message,
+        people: Number(triage.people),
+        injuries: Number(triage.injuries),
+        needs,
+        severity: triage.severity,
+        status: 'open',
       });
+
+      const e2eService = new E2EService();
+      await e2eService.createE2EMessage(
+        report,
+        {
+          name: formData.name || undefined,
+          location: formData.location || undefined,
+          coords: coords ?? undefined,
+          contact: formData.contact || undefined,
+        },
+        groupId || undefined,
+        attachment
+      );
       onSuccess();
       onClose();
     } catch (err) {
@@ -63,9 +108,40 @@ export function E2EForm({ onClose, onSuccess }: E2EFormProps) {
         <form onSubmit={handleSubmit} className="p-4 space-y-4">
           <div className="bg-purple-50 border border-purple-200 text-purple-700 px-3 py-2 rounded-md text-sm">
             <Lock className="w-4 h-4 inline mr-1" />
-            This message will be encrypted. Only the admin can decrypt it.
+            {selectedGroup
+              ? `This message will be encrypted. Only the ${selectedGroup.members.length} members of "${selectedGroup.name}" can decrypt it.`
+              : 'This message will be encrypted. Only the admin can decrypt it.'}
           </div>
 
+          {!groupId && !hasAdminKey && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                No admin key yet. Scan the QR code on the admin's Admin tab to load it.
+              </p>
+              <AdminKeyImport onTrusted={() => setHasAdminKey(true)} />
+            </div>
+          )}
+
+          {groups.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Recipients
+              </label>
+              <select
+                value={groupId}
+                onChange={(e) => setGroupId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="">Admin</option>
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name} ({group.members.length})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Your Name (optional)
@@ -92,6 +168,8 @@ export function E2EForm({ onClose, onSuccess }: E2EFormProps) {
             />
           </div>
 
+          <LocationField value={coords} onChange={setCoords} accent="purple" />
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Contact Info (optional)
@@ -107,7 +185,7 @@ export function E2EForm({ onClose, onSuccess }: E2EFormProps) {
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Message <span className="text-red-500">*</span>
+              What happened? <span className="text-red-500">*</span>
             </label>
             <textarea
               value={formData.message}
@@ -115,7 +193,82 @@ export function E2EForm({ onClose, onSuccess }: E2EFormProps) {
               required
               rows={4}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-              placeholder="Enter your secure message..."
+              placeholder="Describe the situation..."
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">People</label>
+              <input
+                type="number"
+                min={0}
+                value={triage.people}
+                onChange={(e) => setTriage({ ...triage, people: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Injured</label>
+              <input
+                type="number"
+                min={0}
+                value={triage.injuries}
+                onChange={(e) => setTriage({ ...triage, injuries: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+              <select
+                value={triage.severity}
+                onChange={(e) => setTriage({ ...triage, severity: e.target.value as IncidentSeverity })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {IncidentReports.SEVERITIES.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {IncidentReports.label(severity)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Needs</label>
+            <div className="flex flex-wrap gap-2">
+              {IncidentReports.NEEDS.map((need) => (
+                <label
+                  key={need}
+                  className={`px-3 py-1 rounded-full border text-sm cursor-pointer ${
+                    needs.includes(need)
+                      ? 'bg-purple-100 border-purple-400 text-purple-800'
+                      : 'border-gray-300 text-gray-700'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={needs.includes(need)}
+                    onChange={(e) =>
+                      setNeeds(e.target.checked ? [...needs, need] : needs.filter((n) => n !== need))
+                    }
+                    className="sr-only"
+                  />
+                  {IncidentReports.label(need)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Paperclip className="w-4 h-4 inline mr-1" />
+              Photo or File (optional, up to 2 MB)
+            </label>
+            <input
+              type="file"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="w-full text-sm text-gray-700"
             />
           </div>
 
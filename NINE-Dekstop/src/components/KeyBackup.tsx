@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { AdminKeyBackup } from '../services/adminKeyBackup';
+import { KeyRound, Download, Upload, Users } from 'lucide-react';
+
+interface KeyBackupProps {
+  isAdmin: boolean;
+  onRestored: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export function KeyBackup({ isAdmin, onRestored }: KeyBackupProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backupText, setBackupText] = useState('');
+  const [sharesText, setSharesText] = useState('');
+  const [shareCount, setShareCount] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  const [shares, setShares] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      }
+      if (passphrase !== confirmPassphrase) {
+        throw new Error('Passphrases do not match');
+      }
+
+      const backup = await AdminKeyBackup.exportEncrypted(passphrase);
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `nine-admin-keys-${Date.now()}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      setPassphrase('');
+      setConfirmPassphrase('');
+    });
+
+  const handleSplit = () =>
+    run(async () => {
+      setShares(await AdminKeyBackup.exportShares(shareCount, threshold));
+    });
+
+  const handleRestoreBackup = () =>
+    run(async () => {
+      await AdminKeyBackup.restoreEncrypted(backupText, passphrase);
+      setBackupText('');
+      setPassphrase('');
+      onRestored();
+    });
+
+  const handleRestoreShares = () =>
+    run(async () => {
+      await AdminKeyBackup.restoreShares(
+        sharesText.split('\n').filter((line) => line.trim())
+      );
+      setSharesText('');
+      onRestored();
+    });
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setBackupText(await file.text());
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-amber-500';
+
+  if (isAdmin) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Admin Key Backup
+        </h3>
+
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Without these keys, encrypted messages already in the mesh cannot be read. Download a
+            passphrase-encrypted backup and keep it off this machine.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClass}
+            placeholder="Backup passphrase"
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            className={inputClass}
+            placeholder="Confirm passphrase"
+          />
+          <button
+            onClick={handleExport}
+            disabled={busy || !passphrase}
+            className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50 transition-colors text-sm flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            {busy ? 'Encrypting...' : 'Download Encrypted Backup'}
+          </button>
+        </div>
+
+        <div className="space-y-3 pt-6 border-t border-gray-200">
+          <h4 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Split Between Trusted People
+          </h4>
+          <p className="text-sm text-gray-600">
+            Give one share to each person. Any {threshold} of the {shareCount} shares restore the
+            keys; fewer reveal nothing.
+          </p>
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="number"
+              min={2}
+              max={shareCount}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+            />
+            of
+            <input
+              type="number"
+              min={2}
+              max={255}
+              value={shareCount}
+              onChange={(e) => setShareCount(Number(e.target.value))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+            />
+            shares
+            <button
+              onClick={handleSplit}
+              disabled={busy}
+              className="ml-auto px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50 transition-colors text-sm"
+            >
+              Create Shares
+            </button>
+          </div>
+          {shares.map((share, index) => (
+            <div key={share} className="flex items-start gap-2">
+              <div className="flex-1 bg-gray-50 rounded-lg p-2 font-mono text-xs break-all">
+                {share}
+              </div>
+              <button
+                onClick={() => navigator.clipboard.writeText(share)}
+                className="text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
+              >
+                Copy #{index + 1}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+        <Upload className="w-5 h-5" />
+        Restore Admin Keys
+      </h3>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Restore from an encrypted backup file made on another NINE console.
+        </p>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={handleBackupFile}
+          className="block w-full text-sm text-gray-600"
+        />
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={inputClass}
+          placeholder="Backup passphrase"
+        />
+        <button
+          onClick={handleRestoreBackup}
+          disabled={busy || !backupText || !passphrase}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors text-sm"
+        >
+          {busy ? 'Decrypting...' : 'Restore From Backup'}
+        </button>
+      </div>
+
+      <div className="space-y-3 pt-6 border-t border-gray-200">
+        <p className="text-sm text-gray-600">Or paste key shares from trusted people, one per line.</p>
+        <textarea
+          value={sharesText}
+          onChange={(e) => setSharesText(e.target.value)}
+          rows={4}
+          className={`${inputClass} font-mono text-xs`}
+          placeholder="nine-share-1:..."
+        />
+        <button
+          onClick={handleRestoreShares}
+          disabled={busy || !sharesText.trim()}
+          className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 transition-colors text-sm"
+        >
+          Restore From Shares
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
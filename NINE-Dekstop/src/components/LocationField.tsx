@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { GeoPoint } from '../types/message';
+import { GeoUtils } from '../utils/geo';
+import { Crosshair, X } from 'lucide-react';
+
+interface LocationFieldProps {
+  value: GeoPoint | null;
+  onChange: (value: GeoPoint | null) => void;
+  accent: 'blue' | 'purple';
+}
+
+export function LocationField({ value, onChange, accent }: LocationFieldProps) {
+  const [manual, setManual] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ring = accent === 'blue' ? 'focus:ring-blue-500' : 'focus:ring-purple-500';
+
+  const handleLocate = async () => {
+    setLocating(true);
+    setError(null);
+    try {
+      onChange(await GeoUtils.getCurrentPosition());
+      setManual('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not determine your location');
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleManual = (text: string) => {
+    setManual(text);
+    setError(null);
+    onChange(text.trim() ? GeoUtils.parse(text) : null);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Coordinates (optional)
+      </label>
+      {value && !manual ? (
+        <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border border-gray-300 rounded-md text-sm text-gray-700">
+          <span className="font-mono">{GeoUtils.format(value)}</span>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={manual}
+            onChange={(e) => handleManual(e.target.value)}
+            className={`flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 ${ring}`}
+            placeholder="Latitude, longitude"
+          />
+          <button
+            type="button"
+            onClick={handleLocate}
+            disabled={locating}
+            className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Crosshair className="w-4 h-4" />
+            {locating ? 'Locating...' : 'Use my location'}
+          </button>
+        </div>
+      )}
+      {manual && !value && (
+        <p className="text-xs text-red-600 mt-1">Enter coordinates as "latitude, longitude"</p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,465 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { feature, mesh } from 'topojson-client';
+import { GeometryCollection, Topology } from 'topojson-specification';
+import world from 'world-atlas/countries-110m.json';
+import { MessageEnvelope, DecryptedMessage, GeoPoint } from '../types/message';
+import { MapTileSource } from '../types/electron';
+import { GeoUtils, PixelPoint } from '../utils/geo';
+import { Plus, Minus, Maximize, MapPin } from 'lucide-react';
+
+interface MapViewProps {
+  broadcasts: MessageEnvelope[];
+  reports: DecryptedMessage[];
+  onSelectBroadcast: (message: MessageEnvelope) => void;
+  onSelectReport: (message: DecryptedMessage) => void;
+}
+
+interface MapPoint {
+  id: string;
+  kind: 'broadcast' | 'report';
+  coords: GeoPoint;
+  label: string;
+  timestamp: string;
+  select: () => void;
+}
+
+interface Cluster {
+  x: number;
+  y: number;
+  points: MapPoint[];
+}
+
+interface Outline {
+  points: PixelPoint[]; // at zoom 0
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+interface MapViewState {
+  zoom: number;
+  center: { lat: number; lon: number };
+}
+
+type TimeRange = '1h' | '6h' | '24h' | '7d' | 'all';
+
+const TIME_RANGES: { value: TimeRange; label: string; ms: number | null }[] = [
+  { value: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { value: '6h', label: 'Last 6 hours', ms: 6 * 60 * 60 * 1000 },
+  { value: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: 'all', label: 'All time', ms: null },
+];
+
+const WIDTH = 800;
+const HEIGHT = 500;
+const PADDING = 40;
+const CLUSTER_PX = 44;
+const FIT_MAX_ZOOM = 15;
+const COLORS = { broadcast: '#2563eb', report: '#9333ea', mixed: '#475569' };
+
+
+// Grid spacing in degrees, coarsest first
+const GRID_STEPS = [30, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001, 0.0005];
+
+function fitView(points: MapPoint[]): MapViewState {
+  if (points.length === 0) {
+    return { zoom: 1, center: { lat: 20, lon: 0 } };
+  }
+
+  const pixels = points.map((point) => GeoUtils.project(point.coords, 0));
+  const minX = Math.min(...pixels.map((p) => p.x));
+  const maxX = Math.max(...pixels.map((p) => p.x));
+  const minY = Math.min(...pixels.map((p) => p.y));
+  const maxY = Math.max(...pixels.map((p) => p.y));
+
+  let zoom = FIT_MAX_ZOOM;
+  while (
+    zoom > 0 &&
+    ((maxX - minX) * 2 ** zoom > WIDTH - 2 * PADDING ||
+      (maxY - minY) * 2 ** zoom > HEIGHT - 2 * PADDING)
+  ) {
+    zoom--;
+  }
+
+  return { zoom, center: GeoUtils.unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0) };
+}
+
+// Natural Earth coastlines and borders (1:110m) bundled with the app, so the map always has a
+// basemap. Installed tiles are drawn over them at the zoom levels they cover
+let worldOutlines: { land: Outline[]; borders: Outline[] } | null = null;
+
+function toOutline(ring: number[][]): Outline {
+  const points = ring.map(([lon, lat]) => GeoUtils.project({ lat, lon }, 0));
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return { points, minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+function getWorldOutlines() {
+  if (!worldOutlines) {
+    const topology = world as unknown as Topology<{ countries: GeometryCollection; land: GeometryCollection }>;
+    const land = feature(topology, topology.objects.land).features.flatMap((shape) =>
+      shape.geometry.type === 'Polygon'
+        ? shape.geometry.coordinates
+        : shape.geometry.type === 'MultiPolygon'
+          ? shape.geometry.coordinates.flat()
+          : []
+    );
+    const borders = mesh(topology, topology.objects.countries, (a, b) => a !== b);
+    worldOutlines = { land: land.map(toOutline), borders: borders.coordinates.map(toOutline) };
+  }
+  return worldOutlines;
+}
+
+// SVG path for the outlines in view, repeated east and west when the world is narrower than the map
+function outlinePath(outlines: Outline[], zoom: number, origin: PixelPoint, closed: boolean): string {
+  const scale = 2 ** zoom;
+  const worldSize = GeoUtils.TILE_SIZE * scale;
+  const parts: string[] = [];
+  for (let copy = Math.floor(origin.x / worldSize); copy * worldSize < origin.x + WIDTH; copy++) {
+    const left = (origin.x - copy * worldSize) / scale;
+    const right = left + WIDTH / scale;
+    const top = origin.y / scale;
+    const bottom = top + HEIGHT / scale;
+    for (const outline of outlines) {
+      if (outline.maxX < left || outline.minX > right || outline.maxY < top || outline.minY > bottom) {
+        continue;
+      }
+      const path = outline.points
+        .map((p) => `${(p.x * scale + copy * worldSize - origin.x).toFixed(1)},${(p.y * scale - origin.y).toFixed(1)}`)
+        .join('L');
+      parts.push(`M${path}${closed ? 'Z' : ''}`);
+    }
+  }
+  return parts.join('');
+}
+
+// Group markers that would overlap on screen
+function clusterPoints(
+  points: MapPoint[],
+  toScreen: (point: { lat: number; lon: number }) => PixelPoint
+): Cluster[] {
+  const cells = new Map<string, { sumX: number; sumY: number; points: MapPoint[] }>();
+
+  for (const point of points) {
+    const { x, y } = toScreen(point.coords);
+    if (x < -CLUSTER_PX || x > WIDTH + CLUSTER_PX || y < -CLUSTER_PX || y > HEIGHT + CLUSTER_PX) {
+      continue;
+    }
+    const key = `${Math.floor(x / CLUSTER_PX)}:${Math.floor(y / CLUSTER_PX)}`;
+    const cell = cells.get(key) ?? { sumX: 0, sumY: 0, points: [] };
+    cell.sumX += x;
+    cell.sumY += y;
+    cell.points.push(point);
+    cells.set(key, cell);
+  }
+
+  return Array.from(cells.values(), (cell) => ({
+    x: cell.sumX / cell.points.length,
+    y: cell.sumY / cell.points.length,
+    points: cell.points,
+  }));
+}
+
+export function MapView({ broadcasts, reports, onSelectBroadcast, onSelectReport }: MapViewProps) {
+  const [range, setRange] = useState<TimeRange>('24h');
+  const [view, setView] = useState<MapViewState | null>(null); // null follows the points
+  const [selected, setSelected] = useState<MapPoint[]>([]);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ clientX: number; clientY: number; center: PixelPoint } | null>(null);
+  const [tileSource, setTileSource] = useState<MapTileSource | null>(null);
+
+  useEffect(() => {
+    GeoUtils.findTiles().then(setTileSource, () => setTileSource({ url: '', zooms: [] }));
+  }, []);
+
+  const { points, hidden } = useMemo(() => {
+    const rangeMs = TIME_RANGES.find((option) => option.value === range)?.ms ?? null;
+    const cutoff = rangeMs === null ? null : Date.now() - rangeMs;
+    const inRange = (timestamp: string) => cutoff === null || new Date(timestamp).getTime() >= cutoff;
+
+    const all: MapPoint[] = [
+      ...broadcasts.map((message) => ({
+        id: message.msg_id,
+        kind: 'broadcast' as const,
+        coords: message.meta?.coords as GeoPoint,
+        label: message.payload,
+        timestamp: message.timestamp,
+        select: () => onSelectBroadcast(message),
+      })),
+      ...reports.map((message) => ({
+        id: message.msg_id,
+        kind: 'report' as const,
+        coords: message.meta?.coords as GeoPoint,
+        label: message.content,
+        timestamp: message.timestamp,
+        select: () => onSelectReport(message),
+      })),
+    ].filter((point) => inRange(point.timestamp));
+
+    const located = all.filter((point) => GeoUtils.isValid(point.coords));
+    return { points: located, hidden: all.length - located.length };
+  }, [broadcasts, reports, range, onSelectBroadcast, onSelectReport]);
+
+  const current = view ?? fitView(points);
+  const zoom = current.zoom;
+  const centerPx = GeoUtils.project(current.center, zoom);
+  const origin = { x: centerPx.x - WIDTH / 2, y: centerPx.y - HEIGHT / 2 };
+  const toScreen = (point: { lat: number; lon: number }): PixelPoint => {
+    const pixel = GeoUtils.project(point, zoom);
+    return { x: pixel.x - origin.x, y: pixel.y - origin.y };
+  };
+  const clusters = clusterPoints(points, toScreen);
+
+  const outlines = getWorldOutlines();
+  const landPath = outlinePath(outlines.land, zoom, origin, true);
+  const borderPath = outlinePath(outlines.borders, zoom, origin, false);
+
+  // Tiles covering the view; x wraps around the antimeridian, y is clamped to the world
+  const tileCount = 2 ** zoom;
+  const hasTiles = !!tileSource && tileSource.zooms.includes(zoom);
+  const tiles: { key: string; href: string; x: number; y: number }[] = [];
+  for (let ty = Math.floor(origin.y / GeoUtils.TILE_SIZE); ty <= Math.floor((origin.y + HEIGHT) / GeoUtils.TILE_SIZE); ty++) {
+    if (!hasTiles || ty < 0 || ty >= tileCount) {
+      continue;
+    }
+    for (let tx = Math.floor(origin.x / GeoUtils.TILE_SIZE); tx <= Math.floor((origin.x + WIDTH) / GeoUtils.TILE_SIZE); tx++) {
+      const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        href: `${tileSource.url}/${zoom}/${wrapped}/${ty}.png`,
+        x: tx * GeoUtils.TILE_SIZE - origin.x,
+        y: ty * GeoUtils.TILE_SIZE - origin.y,
+      });
+    }
+  }
+
+  const northWest = GeoUtils.unproject(origin, zoom);
+  const southEast = GeoUtils.unproject({ x: origin.x + WIDTH, y: origin.y + HEIGHT }, zoom);
+  const lonSpan = southEast.lon - northWest.lon;
+  const step = GRID_STEPS.find((candidate) => lonSpan / candidate >= 3) ?? GRID_STEPS[GRID_STEPS.length - 1];
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const meridians: number[] = [];
+  for (let lon = Math.ceil(northWest.lon / step) * step; lon <= southEast.lon; lon += step) {
+    meridians.push(lon);
+  }
+  const parallels: number[] = [];
+  for (let lat = Math.ceil(southEast.lat / step) * step; lat <= northWest.lat; lat += step) {
+    parallels.push(lat);
+  }
+
+  const zoomTo = (nextZoom: number, center = current.center) => {
+    setView({ zoom: Math.max(0, Math.min(GeoUtils.MAX_ZOOM, nextZoom)), center });
+  };
+
+  const handleClusterClick = (cluster: Cluster) => {
+    if (cluster.points.length === 1) {
+      cluster.points[0].select();
+      return;
+    }
+    setSelected(cluster.points);
+    if (zoom < GeoUtils.MAX_ZOOM) {
+      zoomTo(zoom + 2, GeoUtils.unproject({ x: cluster.x + origin.x, y: cluster.y + origin.y }, zoom));
+    }
+  };
+
+  // The SVG is scaled to fit its container, so convert mouse movement to map pixels
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) {
+      return;
+    }
+    const scale = WIDTH / svg.clientWidth;
+    const center = {
+      x: drag.center.x - (e.clientX - drag.clientX) * scale,
+      y: drag.center.y - (e.clientY - drag.clientY) * scale,
+    };
+    setView({ zoom, center: GeoUtils.unproject(center, zoom) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-full" style={{ background: COLORS.broadcast }} />
+            Broadcasts
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-full" style={{ background: COLORS.report }} />
+            Decrypted reports
+          </span>
+          {hidden > 0 && <span className="text-gray-400">{hidden} without coordinates not shown</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value as TimeRange)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            {TIME_RANGES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => zoomTo(zoom + 1)}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Zoom in"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => zoomTo(zoom - 1)}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Zoom out"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => {
+              setView(null);
+              setSelected([]);
+            }}
+            className="p-1.5 border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Fit to reports"
+          >
+            <Maximize className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto cursor-move select-none"
+          onMouseDown={(e) => {
+            dragRef.current = { clientX: e.clientX, clientY: e.clientY, center: centerPx };
+          }}
+          onMouseMove={handleMouseMove}
+          onMouseUp={() => (dragRef.current = null)}
+          onMouseLeave={() => (dragRef.current = null)}
+        >
+          <rect width={WIDTH} height={HEIGHT} fill="#eef2f7" />
+          <path d={landPath} fill="#fafaf9" stroke="#94a3b8" strokeWidth={0.75} />
+          <path d={borderPath} fill="none" stroke="#cbd5e1" strokeWidth={0.75} />
+          {tiles.map((tile) => (
+            <image
+              key={tile.key}
+              href={tile.href}
+              x={tile.x}
+              y={tile.y}
+              width={GeoUtils.TILE_SIZE}
+              height={GeoUtils.TILE_SIZE}
+            />
+          ))}
+
+          <g stroke="#cbd5e1" strokeWidth={1}>
+            {meridians.map((lon) => {
+              const { x } = toScreen({ lat: current.center.lat, lon });
+              return <line key={`lon${lon}`} x1={x} y1={0} x2={x} y2={HEIGHT} />;
+            })}
+            {parallels.map((lat) => {
+              const { y } = toScreen({ lat, lon: current.center.lon });
+              return <line key={`lat${lat}`} x1={0} y1={y} x2={WIDTH} y2={y} />;
+            })}
+          </g>
+          <g fill="#64748b" fontSize={10}>
+            {meridians.map((lon) => (
+              <text key={`lonl${lon}`} x={toScreen({ lat: current.center.lat, lon }).x + 3} y={HEIGHT - 4}>
+                {lon.toFixed(decimals)}°
+              </text>
+            ))}
+            {parallels.map((lat) => (
+              <text key={`latl${lat}`} x={3} y={toScreen({ lat, lon: current.center.lon }).y - 3}>
+                {lat.toFixed(decimals)}°
+              </text>
+            ))}
+          </g>
+
+          {clusters.map((cluster) => {
+            const kinds = new Set(cluster.points.map((point) => point.kind));
+            const color = kinds.size > 1 ? COLORS.mixed : COLORS[cluster.points[0].kind];
+            const single = cluster.points.length === 1 ? cluster.points[0] : null;
+            const accuracyPx = single?.coords.accuracy
+              ? single.coords.accuracy / GeoUtils.metersPerPixel(single.coords.lat, zoom)
+              : 0;
+
+            return (
+              <g
+                key={cluster.points.map((point) => point.id).join(',')}
+                className="cursor-pointer"
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => handleClusterClick(cluster)}
+              >
+                {accuracyPx > 8 && (
+                  <circle cx={cluster.x} cy={cluster.y} r={Math.min(accuracyPx, WIDTH)} fill={color} fillOpacity={0.12} />
+                )}
+                <circle
+                  cx={cluster.x}
+                  cy={cluster.y}
+                  r={single ? 7 : 12 + Math.min(cluster.points.length, 10)}
+                  fill={color}
+                  fillOpacity={single ? 1 : 0.85}
+                  stroke="white"
+                  strokeWidth={2}
+                />
+                {!single && (
+                  <text x={cluster.x} y={cluster.y + 4} textAnchor="middle" fontSize={12} fontWeight="bold" fill="white">
+                    {cluster.points.length}
+                  </text>
+                )}
+                <title>
+                  {single
+                    ? `${single.label.substring(0, 80)}\n${new Date(single.timestamp).toLocaleString()}`
+                    : `${cluster.points.length} reports`}
+                </title>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {tileSource && !hasTiles && (
+        <p className="text-xs text-gray-500">
+          {tileSource.zooms.length === 0 ? (
+            <>
+              No offline map tiles are installed, so only country outlines are shown. For streets and terrain, put a
+              z/x/y PNG tile set in <code>{tileSource.dir ?? 'the tiles folder of the relay'}</code> and reopen the map.
+            </>
+          ) : (
+            `Map tiles are installed for zoom levels ${tileSource.zooms.join(', ')}. This zoom shows country outlines only.`
+          )}
+        </p>
+      )}
+
+      {points.length === 0 && (
+        <div className="text-center py-6 bg-white rounded-lg border border-gray-200">
+          <MapPin className="w-10 h-10 text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-500">No geotagged reports in this time range</p>
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+          {selected.map((point) => (
+            <button
+              key={point.id}
+              onClick={point.select}
+              className="w-full text-left px-4 py-2 hover:bg-gray-50 flex items-center gap-3"
+            >
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: COLORS[point.kind] }} />
+              <span className="flex-1 text-sm text-gray-900 truncate">{point.label}</span>
+              <span className="text-xs text-gray-500">{new Date(point.timestamp).toLocaleString()}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
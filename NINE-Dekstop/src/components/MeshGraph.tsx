@@ -1,12 +1,36 @@
-import { HopInfo } from '../types/message';
+import { useState, useEffect } from 'react';
+import { HopInfo, HopStatus } from '../types/message';
+import { HopChain } from '../services/hopChain';
 
 interface MeshGraphProps {
   messagePath: HopInfo[];
   keyPath?: HopInfo[];
   title?: string;
+  msgId?: string;
+  senderKey?: string;
 }
 
-export function MeshGraph({ messagePath, keyPath, title }: MeshGraphProps) {
+export function MeshGraph({ messagePath, keyPath, title, msgId, senderKey }: MeshGraphProps) {
+  const [hopStatuses, setHopStatuses] = useState<HopStatus[]>([]);
+
+  // Verify the hop chain before drawing it, so rewritten segments can be flagged
+  useEffect(() => {
+    if (!msgId) {
+      setHopStatuses([]);
+      return;
+    }
+    let cancelled = false;
+    HopChain.verify(msgId, messagePath, senderKey).then((statuses) => {
+      if (!cancelled) {
+        setHopStatuses(statuses);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [msgId, messagePath, senderKey]);
+
+  const hasTamperedHops = hopStatuses.includes('tampered');
   const allNodes = new Set<string>();
   messagePath.forEach((hop) => allNodes.add(hop.nodeId));
   keyPath?.forEach((hop) => allNodes.add(hop.nodeId));
@@ -44,6 +68,7 @@ export function MeshGraph({ messagePath, keyPath, title }: MeshGraphProps) {
             const fromPos = nodePositions[from.nodeId];
             const toPos = nodePositions[to.nodeId];
             if (!fromPos || !toPos) return null;
+            const tampered = hopStatuses[idx + 1] === 'tampered';
             return (
               <line
                 key={`msg-${idx}`}
@@ -51,9 +76,10 @@ export function MeshGraph({ messagePath, keyPath, title }: MeshGraphProps) {
                 y1={fromPos.y}
                 x2={toPos.x}
                 y2={toPos.y}
-                stroke="#3b82f6"
+                stroke={tampered ? '#ef4444' : '#3b82f6'}
                 strokeWidth="2"
-                markerEnd="url(#arrow-blue)"
+                strokeDasharray={tampered ? '2,3' : undefined}
+                markerEnd={tampered ? 'url(#arrow-red)' : 'url(#arrow-blue)'}
               />
             );
           })}
@@ -106,6 +132,17 @@ export function MeshGraph({ messagePath, keyPath, title }: MeshGraphProps) {
           >
             <path d="M0,0 L0,6 L9,3 z" fill="#10b981" />
           </marker>
+          <marker
+            id="arrow-red"
+            markerWidth="10"
+            markerHeight="10"
+            refX="9"
+            refY="3"
+            orient="auto"
+            markerUnits="strokeWidth"
+          >
+            <path d="M0,0 L0,6 L9,3 z" fill="#ef4444" />
+          </marker>
         </defs>
 
         {/* Nodes */}
@@ -153,6 +190,12 @@ export function MeshGraph({ messagePath, keyPath, title }: MeshGraphProps) {
           <div className="w-3 h-3 rounded-full bg-blue-500"></div>
           <span>Message Path</span>
         </div>
+        {hasTamperedHops && (
+          <div className="flex items-center gap-1 text-red-600">
+            <div className="w-3 h-3 rounded-full bg-red-500"></div>
+            <span>Tampered Hop</span>
+          </div>
+        )}
         {keyPath && (
           <>
             <div className="flex items-center gap-1">
@@ -1,19 +1,92 @@
-import { MessageEnvelope } from '../types/message';
+import {
+  MessageEnvelope,
+  SignatureStatus,
+  AlertPriority,
+  ReceivedReply,
+  ReportDelivery,
+  DeliveryStatus,
+} from '../types/message';
+import { MessageFactory } from '../services/messageFactory';
+import { ReceiptService } from '../services/receiptService';
 import { MeshGraph } from './MeshGraph';
-import { Clock, MapPin, User, Phone } from 'lucide-react';
-import { useState } from 'react';
+import { GeoUtils } from '../utils/geo';
+import {
+  Clock,
+  MapPin,
+  Crosshair,
+  User,
+  Phone,
+  ShieldCheck,
+  ShieldQuestion,
+  Pin,
+  MessageCircle,
+  CheckCircle2,
+  XCircle,
+} from 'lucide-react';
+import { useState, useEffect } from 'react';
+
+const PRIORITY_STYLES: Record<AlertPriority, { card: string; badge: string; label: string }> = {
+  info: {
+    card: 'border-blue-400 bg-blue-50',
+    badge: 'bg-blue-600 text-white',
+    label: 'OFFICIAL · INFO',
+  },
+  warning: {
+    card: 'border-amber-400 bg-amber-50',
+    badge: 'bg-amber-500 text-white',
+    label: 'OFFICIAL · WARNING',
+  },
+  evacuation: {
+    card: 'border-red-500 bg-red-50',
+    badge: 'bg-red-600 text-white',
+    label: 'OFFICIAL · EVACUATION',
+  },
+};
+
+const DELIVERY_LABELS: Record<DeliveryStatus, string> = {
+  sent: 'Sent',
+  relayed: 'Relayed',
+  decrypted: 'Decrypted',
+  acknowledged: 'Acknowledged',
+};
 
 interface MessageCardProps {
   message: MessageEnvelope;
+  replies?: ReceivedReply[]; // Admin replies to a report this node sent
+  delivery?: ReportDelivery; // How far a report this node sent has got
   onViewDetails?: () => void;
 }
 
-export function MessageCard({ message, onViewDetails }: MessageCardProps) {
+export function MessageCard({ message, replies, delivery, onViewDetails }: MessageCardProps) {
   const [showGraph, setShowGraph] = useState(false);
+  const [signatureStatus, setSignatureStatus] = useState<SignatureStatus | null>(null);
+  const [officialPriority, setOfficialPriority] = useState<AlertPriority | null>(null);
   const timeAgo = getTimeAgo(message.timestamp);
 
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      MessageFactory.verifyEnvelope(message),
+      MessageFactory.verifyOfficialAlert(message),
+    ]).then(([status, priority]) => {
+      if (!cancelled) {
+        setSignatureStatus(status);
+        setOfficialPriority(priority);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [message]);
+
+  const alertStyle = officialPriority ? PRIORITY_STYLES[officialPriority] : null;
+
   return (
-    <div className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow">
+    <div
+      className={`rounded-lg border p-4 hover:shadow-md transition-shadow ${
+        alertStyle ? `border-2 ${alertStyle.card}` : 'bg-white border-gray-200'
+      }`}
+    >
       <div className="flex items-start justify-between mb-2">
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-1">
@@ -26,6 +99,32 @@ export function MessageCard({ message, onViewDetails }: MessageCardProps) {
                 ENCRYPTED
               </span>
             )}
+            {alertStyle && (
+              <span
+                className={`px-2 py-0.5 text-xs font-semibold rounded flex items-center gap-1 ${alertStyle.badge}`}
+                title="Signed with the admin key"
+              >
+                <Pin className="w-3 h-3" />
+                {alertStyle.label}
+              </span>
+            )}
+            {signatureStatus === 'verified' ? (
+              <span
+                className="px-2 py-0.5 bg-green-100 text-green-700 text-xs font-semibold rounded flex items-center gap-1"
+                title={`Signed by ${message.from}`}
+              >
+                <ShieldCheck className="w-3 h-3" />
+                VERIFIED
+              </span>
+            ) : signatureStatus && (
+              <span
+                className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs font-semibold rounded flex items-center gap-1"
+                title="Sender could not be verified"
+              >
+                <ShieldQuestion className="w-3 h-3" />
+                UNVERIFIED
+              </span>
+            )}
             <span className="text-xs text-gray-500 flex items-center gap-1">
               <Clock className="w-3 h-3" />
               {timeAgo}
@@ -54,6 +153,12 @@ export function MessageCard({ message, onViewDetails }: MessageCardProps) {
                   <span>{message.meta.location}</span>
                 </div>
               )}
+              {GeoUtils.isValid(message.meta.coords) && (
+                <div className="flex items-center gap-1">
+                  <Crosshair className="w-3 h-3" />
+                  <span className="font-mono">{GeoUtils.format(message.meta.coords)}</span>
+                </div>
+              )}
               {message.meta.contact && (
                 <div className="flex items-center gap-1">
                   <Phone className="w-3 h-3" />
@@ -65,6 +170,72 @@ export function MessageCard({ message, onViewDetails }: MessageCardProps) {
         </div>
       </div>
 
+      {delivery && (
+        <div className="flex flex-wrap items-center gap-1 mt-3 text-xs">
+          {ReceiptService.STATUSES.map((status, index) => {
+            const reached = index <= ReceiptService.STATUSES.indexOf(delivery.status);
+            const confirmed = index <= ReceiptService.STATUSES.indexOf(ReceiptService.getVerifiedStatus(delivery));
+            return (
+              <span key={status} className="flex items-center gap-1">
+                {index > 0 && <span className="text-gray-300">→</span>}
+                <span
+                  className={`flex items-center gap-1 ${
+                    confirmed ? 'text-green-700 font-semibold' : reached ? 'text-gray-600 font-semibold' : 'text-gray-400'
+                  }`}
+                  title={reached && !confirmed ? 'Only an unverified receipt reports this step' : undefined}
+                >
+                  {confirmed && <CheckCircle2 className="w-3 h-3" />}
+                  {reached && !confirmed && <ShieldQuestion className="w-3 h-3" />}
+                  {DELIVERY_LABELS[status]}
+                </span>
+              </span>
+            );
+          })}
+          {!delivery.verified && (
+            <span
+              className="ml-1 px-2 py-0.5 bg-gray-100 text-gray-600 font-semibold rounded flex items-center gap-1"
+              title="Steps marked with a question mark come from receipts not signed by the admin signing key this node trusts"
+            >
+              <ShieldQuestion className="w-3 h-3" />
+              UNVERIFIED
+            </span>
+          )}
+          {delivery.rejected && (
+            <span
+              className="ml-1 px-2 py-0.5 bg-red-100 text-red-700 font-semibold rounded flex items-center gap-1"
+              title={delivery.rejected}
+            >
+              <XCircle className="w-3 h-3" />
+              REFUSED BY THE MESH SERVER: {delivery.rejected}
+            </span>
+          )}
+        </div>
+      )}
+
+      {replies && replies.length > 0 && (
+        <div className="space-y-2 mt-3">
+          {replies.map((reply) => (
+            <div key={reply.msg_id} className="bg-green-50 border border-green-200 rounded-lg p-3">
+              <div className="flex items-center gap-2 text-xs font-semibold text-green-800 mb-1">
+                <MessageCircle className="w-3 h-3" />
+                REPLY FROM ADMIN
+                {!reply.verified && (
+                  <span
+                    className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded flex items-center gap-1"
+                    title="Not signed by the admin signing key this node trusts"
+                  >
+                    <ShieldQuestion className="w-3 h-3" />
+                    UNVERIFIED
+                  </span>
+                )}
+                <span className="font-normal text-gray-500">{getTimeAgo(reply.timestamp)}</span>
+              </div>
+              <p className="text-gray-900 whitespace-pre-wrap">{reply.content}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
         <button
           onClick={() => setShowGraph(!showGraph)}
@@ -84,7 +255,11 @@ export function MessageCard({ message, onViewDetails }: MessageCardProps) {
 
       {showGraph && (
         <div className="mt-3">
-          <MeshGraph messagePath={message.hops} />
+          <MeshGraph
+            messagePath={message.hops}
+            msgId={message.msg_id}
+            senderKey={message.sender_key}
+          />
         </div>
       )}
     </div>
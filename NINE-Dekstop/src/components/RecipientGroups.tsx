@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { RecipientGroupStore } from '../services/recipientGroupStore';
+import { Recipient, RecipientGroup } from '../types/message';
+import { Users, Trash2, Plus } from 'lucide-react';
+
+// One member per line, as "Command Post A: <base64 public key>"
+function parseMembers(text: string): Recipient[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const separator = line.lastIndexOf(':');
+      return separator > 0
+        ? { name: line.slice(0, separator).trim(), publicKey: line.slice(separator + 1).trim() }
+        : { name: `Recipient ${index + 1}`, publicKey: line };
+    });
+}
+
+export function RecipientGroups() {
+  const [groups, setGroups] = useState<RecipientGroup[]>(RecipientGroupStore.getGroups());
+  const [name, setName] = useState('');
+  const [membersText, setMembersText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const members = parseMembers(membersText);
+    if (!name.trim() || members.length === 0) {
+      setError('A group needs a name and at least one member public key');
+      return;
+    }
+
+    try {
+      RecipientGroupStore.createGroup(name.trim(), members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the group');
+      return;
+    }
+    setGroups(RecipientGroupStore.getGroups());
+    setName('');
+    setMembersText('');
+  };
+
+  const handleDelete = (id: string) => {
+    RecipientGroupStore.deleteGroup(id);
+    setGroups(RecipientGroupStore.getGroups());
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Users className="w-5 h-5" />
+        Recipient Groups
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Encrypted messages sent to a group can be opened by any of its members.
+      </p>
+
+      {groups.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {groups.map((group) => (
+            <div
+              key={group.id}
+              className="flex items-start justify-between bg-gray-50 rounded-lg p-3"
+            >
+              <div>
+                <div className="font-medium text-gray-900">{group.name}</div>
+                <div className="text-xs text-gray-500">
+                  {group.members.map((member) => member.name).join(', ')}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDelete(group.id)}
+                className="text-gray-400 hover:text-red-600 transition-colors"
+                title="Delete group"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder="Group name, e.g. Command Posts"
+        />
+        <textarea
+          value={membersText}
+          onChange={(e) => setMembersText(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder={'Command Post A: <admin public key>\nCommand Post B: <admin public key>'}
+        />
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+        <button
+          type="submit"
+          className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          Add Group
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { MeshNetwork } from '../services/meshNetwork';
+import { PinnedServer, ServerCertificate } from '../types/electron';
+import { Lock, X } from 'lucide-react';
+
+/**
+ * The embedded server's certificate fingerprint, as text and as a QR code, so another device
+ * can check it before trusting the self-signed certificate. Also lists the fingerprints this
+ * node pinned for other servers. Renders nothing outside Electron or when TLS is off.
+ */
+export function ServerTrust() {
+  const [certificate, setCertificate] = useState<ServerCertificate | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [pins, setPins] = useState<PinnedServer[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI?.getServerCertificate().then(setCertificate).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (!certificate) {
+      return;
+    }
+    QRCode.toDataURL(certificate.fingerprint, { margin: 1, width: 200 })
+      .then(setQrCode)
+      .catch(console.error);
+  }, [certificate]);
+
+  useEffect(() => {
+    if (open) {
+      window.electronAPI?.getPinnedServers().then(setPins).catch(console.error);
+    }
+  }, [open]);
+
+  const handleForget = async (host: string) => {
+    await window.electronAPI?.forgetPinnedServer(host);
+    setPins((current) => current.filter((pin) => pin.host !== host));
+    // The next contact pins whatever certificate the server presents now
+    MeshNetwork.getInstance().reconnect();
+  };
+
+  if (!certificate) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 rounded-full text-sm text-gray-700 hover:bg-gray-200 transition-colors"
+        title="Server certificate"
+      >
+        <Lock className="w-4 h-4 text-green-600" />
+        TLS
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg p-4 space-y-4 z-50">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">Server Certificate</h3>
+            <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            The certificate is self-signed. Before accepting it on another device, check that the
+            fingerprint it shows matches this one.
+          </p>
+          {qrCode && (
+            <img src={qrCode} alt="Certificate fingerprint" className="w-40 h-40 mx-auto" />
+          )}
+          <code className="block text-xs text-gray-800 bg-gray-50 rounded p-2 break-all">
+            {certificate.fingerprint}
+          </code>
+
+          {certificate.gatewayUrls.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-sm font-medium text-gray-700">Gateway</div>
+              {certificate.gatewayUrls.map((url) => (
+                <div key={url} className="text-xs text-gray-600 break-all">
+                  {url}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700">Pinned servers</div>
+            {pins.length === 0 ? (
+              <p className="text-xs text-gray-500">No other servers contacted yet.</p>
+            ) : (
+              pins.map((pin) => (
+                <div key={pin.host} className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm text-gray-900">{pin.host}</div>
+                    <div className="text-xs text-gray-500 break-all">{pin.fingerprint}</div>
+                  </div>
+                  <button
+                    onClick={() => handleForget(pin.host)}
+                    className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                    title="Trust the certificate this server presents next"
+                  >
+                    Forget
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { MeshNetwork } from '../services/meshNetwork';
+import { TransferProgress } from '../services/chunkedTransfer';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { useState, useEffect } from 'react';
+
+// How long a finished transfer stays listed
+const FINISHED_DISPLAY_MS = 3000;
+
+export function TransferStatus() {
+  const [transfers, setTransfers] = useState<Record<string, TransferProgress>>({});
+
+  useEffect(() => {
+    MeshNetwork.getInstance().onTransferProgress((progress) => {
+      setTransfers((current) => ({ ...current, [progress.transferId]: progress }));
+
+      if (progress.status !== 'active') {
+        setTimeout(() => {
+          setTransfers((current) => {
+            const rest = { ...current };
+            delete rest[progress.transferId];
+            return rest;
+          });
+        }, FINISHED_DISPLAY_MS);
+      }
+    });
+  }, []);
+
+  const list = Object.values(transfers);
+  if (list.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {list.map((transfer) => (
+        <div
+          key={transfer.transferId}
+          className="flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-xs text-gray-700"
+        >
+          {transfer.direction === 'incoming' ? (
+            <ArrowDown className="w-3 h-3 text-blue-600" />
+          ) : (
+            <ArrowUp className="w-3 h-3 text-purple-600" />
+          )}
+          <div className="w-24 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${transfer.status === 'failed' ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${Math.round((transfer.done / transfer.total) * 100)}%` }}
+            />
+          </div>
+          <span>
+            {transfer.status === 'failed'
+              ? 'Transfer failed'
+              : `${transfer.done}/${transfer.total} chunks`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { CaseStatus, DecryptedMessage, IncidentCase, IncidentSeverity } from '../types/message';
+import { IncidentReports } from '../services/incidentReports';
+import { CaseManager } from '../services/caseManager';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface TriageTableProps {
+  messages: DecryptedMessage[];
+  cases: Record<string, IncidentCase>;
+  onSelect: (message: DecryptedMessage) => void;
+}
+
+type SortKey = 'case' | 'severity' | 'status' | 'people' | 'injuries' | 'needs' | 'received';
+
+const SEVERITY_STYLES: Record<IncidentSeverity, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+const CASE_STATUS_STYLES: Record<CaseStatus, string> = {
+  open: 'bg-red-50 text-red-700',
+  acknowledged: 'bg-yellow-50 text-yellow-800',
+  dispatched: 'bg-blue-50 text-blue-700',
+  resolved: 'bg-green-50 text-green-700',
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'case', label: 'Case' },
+  { key: 'severity', label: 'Severity' },
+  { key: 'status', label: 'Status' },
+  { key: 'people', label: 'People' },
+  { key: 'injuries', label: 'Injured' },
+  { key: 'needs', label: 'Needs' },
+  { key: 'received', label: 'Received' },
+];
+
+// Messages without a structured report sort below every report
+function sortValue(message: DecryptedMessage, key: SortKey, caseStatus: CaseStatus): number {
+  const report = message.report;
+  switch (key) {
+    case 'case':
+      return CaseManager.STATUSES.indexOf(caseStatus);
+    case 'received':
+      return new Date(message.timestamp).getTime();
+    case 'severity':
+      return report ? IncidentReports.SEVERITIES.indexOf(report.severity) : -1;
+    case 'status':
+      return report ? IncidentReports.STATUSES.indexOf(report.status) : -1;
+    case 'people':
+      return report ? report.people : -1;
+    case 'injuries':
+      return report ? report.injuries : -1;
+    case 'needs':
+      return report ? report.needs.length : -1;
+  }
+}
+
+export function TriageTable({ messages, cases, onSelect }: TriageTableProps) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: 'severity',
+    descending: true,
+  });
+
+  const caseStatus = (message: DecryptedMessage) => cases[message.msg_id]?.status ?? 'open';
+  const value = (message: DecryptedMessage, key: SortKey) => sortValue(message, key, caseStatus(message));
+
+  const sorted = [...messages].sort((a, b) => {
+    const difference = value(a, sort.key) - value(b, sort.key);
+    // Newest first among equal values
+    const tieBreak = value(b, 'received') - value(a, 'received');
+    return (sort.descending ? -difference : difference) || tieBreak;
+  });
+
+  const handleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key ? { key, descending: !current.descending } : { key, descending: true }
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-600">
+            {COLUMNS.map((column) => (
+              <th key={column.key} className="py-2 pr-4 font-medium">
+                <button
+                  onClick={() => handleSort(column.key)}
+                  className="flex items-center gap-1 hover:text-gray-900"
+                >
+                  {column.label}
+                  {sort.key === column.key &&
+                    (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                </button>
+              </th>
+            ))}
+            <th className="py-2 pr-4 font-medium">Assignee</th>
+            <th className="py-2 font-medium">Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((message) => {
+            const report = message.report;
+            const status = caseStatus(message);
+            return (
+              <tr
+                key={message.msg_id}
+                onClick={() => onSelect(message)}
+                className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+              >
+                <td className="py-2 pr-4">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${CASE_STATUS_STYLES[status]}`}>
+                    {CaseManager.label(status)}
+                  </span>
+                </td>
+                <td className="py-2 pr-4">
+                  {report ? (
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${SEVERITY_STYLES[report.severity]}`}>
+                      {IncidentReports.label(report.severity)}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-gray-400">Untriaged</span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-gray-700">{report ? IncidentReports.label(report.status) : '—'}</td>
+                <td className="py-2 pr-4 text-gray-900">{report ? report.people : '—'}</td>
+                <td className="py-2 pr-4 text-gray-900">{report ? report.injuries : '—'}</td>
+                <td className="py-2 pr-4 text-gray-700">
+                  {report && report.needs.length > 0 ? report.needs.map(IncidentReports.label).join(', ') : '—'}
+                </td>
+                <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+                  {new Date(message.timestamp).toLocaleString()}
+                </td>
+                <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                  {cases[message.msg_id]?.assignee ?? '—'}
+                </td>
+                <td className="py-2 text-gray-900 max-w-xs truncate">{message.content}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
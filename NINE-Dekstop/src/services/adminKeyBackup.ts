@@ -0,0 +1,167 @@
+import { RetiredAdminKey } from '../types/message';
+import { AdminKeyStore } from './adminKeyStore';
+import { AdminVault } from './adminVault';
+import { CryptoUtils } from '../utils/crypto';
+import { Shamir } from '../utils/shamir';
+
+const BACKUP_FORMAT = 'nine-admin-key-backup';
+const SHARE_PREFIX = 'nine-share-1';
+
+interface AdminKeyBundle {
+  publicKey: string;
+  privateKey: string;
+  signingPublicKey: string | null;
+  signingPrivateKey: string | null;
+  retiredKeys?: RetiredAdminKey[]; // Absent in backups made before key rotation existed
+}
+
+export interface AdminKeyBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  created: string;
+  publicKey: string; // Left readable so the right backup can be picked without the passphrase
+  kdf: {
+    algorithm: 'argon2id13';
+    salt: string;
+    opsLimit: number;
+    memLimit: number;
+  };
+  ciphertext: string;
+}
+
+export class AdminKeyBackup {
+  // Argon2id cost for backups; stored in the file so it can be raised later
+  private static readonly OPS_LIMIT = 3;
+  private static readonly MEM_LIMIT = 64 * 1024 * 1024;
+
+  static async exportEncrypted(passphrase: string): Promise<AdminKeyBackupFile> {
+    const bundle = this.currentBundle();
+    const salt = await CryptoUtils.generatePassphraseSalt();
+    const key = await CryptoUtils.deriveKeyFromPassphrase(
+      passphrase,
+      salt,
+      this.OPS_LIMIT,
+      this.MEM_LIMIT
+    );
+
+    return {
+      format: BACKUP_FORMAT,
+      version: 1,
+      created: new Date().toISOString(),
+      publicKey: bundle.publicKey,
+      kdf: { algorithm: 'argon2id13', salt, opsLimit: this.OPS_LIMIT, memLimit: this.MEM_LIMIT },
+      ciphertext: await CryptoUtils.encryptMessage(JSON.stringify(bundle), key),
+    };
+  }
+
+  static async restoreEncrypted(backupJson: string, passphrase: string): Promise<void> {
+    let backup: AdminKeyBackupFile;
+    try {
+      backup = JSON.parse(backupJson);
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+    if (backup.format !== BACKUP_FORMAT || backup.version !== 1) {
+      throw new Error('Not a NINE admin key backup');
+    }
+
+    const key = await CryptoUtils.deriveKeyFromPassphrase(
+      passphrase,
+      backup.kdf.salt,
+      backup.kdf.opsLimit,
+      backup.kdf.memLimit
+    );
+
+    let plaintext: string;
+    try {
+      plaintext = await CryptoUtils.decryptMessage(backup.ciphertext, key);
+    } catch {
+      throw new Error('Wrong passphrase or corrupted backup');
+    }
+    await this.restoreBundle(this.parseBundle(plaintext));
+  }
+
+  /**
+   * Split the admin keys into `shareCount` text shares, any `threshold` of which restore them.
+   */
+  static async exportShares(shareCount: number, threshold: number): Promise<string[]> {
+    const secret = new TextEncoder().encode(JSON.stringify(this.currentBundle()));
+    const setId = Array.from(await CryptoUtils.randomBytes(4))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+
+    const shares = await Shamir.split(secret, shareCount, threshold);
+    return Promise.all(
+      shares.map(
+        async (share) =>
+          `${SHARE_PREFIX}:${setId}:${threshold}:${share.x}:${await CryptoUtils.toBase64(share.y)}`
+      )
+    );
+  }
+
+  static async restoreShares(encodedShares: string[]): Promise<void> {
+    const parsed = await Promise.all(
+      encodedShares.map(async (encoded) => {
+        const [prefix, setId, threshold, x, data] = encoded.trim().split(':');
+        if (prefix !== SHARE_PREFIX || !data) {
+          throw new Error('Not a NINE key share');
+        }
+        return {
+          setId,
+          threshold: Number(threshold),
+          share: { x: Number(x), y: await CryptoUtils.fromBase64(data) },
+        };
+      })
+    );
+
+    if (new Set(parsed.map((item) => item.setId)).size > 1) {
+      throw new Error('Shares come from different backups');
+    }
+    const threshold = parsed[0]?.threshold ?? 0;
+    if (parsed.length < threshold) {
+      throw new Error(`${threshold} shares are needed, only ${parsed.length} given`);
+    }
+
+    const secret = Shamir.combine(parsed.map((item) => item.share));
+    await this.restoreBundle(this.parseBundle(new TextDecoder().decode(secret)));
+  }
+
+  private static currentBundle(): AdminKeyBundle {
+    const keyPair = AdminKeyStore.getAdminKeyPair();
+    if (!keyPair) {
+      throw new Error('No admin keys to back up');
+    }
+    return {
+      ...keyPair,
+      signingPublicKey: AdminKeyStore.getAdminSigningPublicKey(),
+      signingPrivateKey: AdminKeyStore.getAdminSigningPrivateKey(),
+      retiredKeys: AdminKeyStore.getRetiredKeys(),
+    };
+  }
+
+  private static parseBundle(plaintext: string): AdminKeyBundle {
+    try {
+      const bundle = JSON.parse(plaintext) as AdminKeyBundle;
+      if (bundle.publicKey && bundle.privateKey) {
+        return bundle;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new Error('Recovered data is not a valid admin key bundle');
+  }
+
+  private static async restoreBundle(bundle: AdminKeyBundle): Promise<void> {
+    AdminKeyStore.saveAdminKeyPair({ publicKey: bundle.publicKey, privateKey: bundle.privateKey });
+    if (bundle.signingPublicKey && bundle.signingPrivateKey) {
+      AdminKeyStore.saveAdminSigningKeyPair({
+        publicKey: bundle.signingPublicKey,
+        privateKey: bundle.signingPrivateKey,
+      });
+    }
+    if (bundle.retiredKeys?.length) {
+      AdminKeyStore.saveRetiredKeys(bundle.retiredKeys);
+    }
+    await AdminVault.sealAdminKeys();
+  }
+}
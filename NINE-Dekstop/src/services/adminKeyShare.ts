@@ -0,0 +1,172 @@
+import { AdminKeyStatement } from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+import { AdminKeyStore } from './adminKeyStore';
+
+// Scheme used for links when there is no gateway to point them at (web build, TLS off)
+const FALLBACK_LINK = 'nine:admin';
+const KEY_BYTES = 32;
+
+export interface SharedAdminKeys {
+  publicKey: string;
+  signingKey?: string;
+  fingerprint: string; // Covers both keys; see CryptoUtils.adminFingerprint
+  gatewayUrl?: string;
+  statement?: AdminKeyStatement; // Present when the admin signed the key
+}
+
+/**
+ * Admin keys shared as a link, shown as a QR code on the admin's Admin tab. The link opens
+ * the gateway with the keys in its fragment, so a phone camera can load them straight into
+ * the gateway page and the fragment never reaches a server. The link carries one fingerprint
+ * over the encryption and signing keys; whoever imports it compares that fingerprint with the
+ * admin's screen before trusting either key, so a code pairing the genuine encryption key with
+ * someone else's signing key is caught too.
+ *
+ * The same keys are published to the gateway page of the local server as a statement signed
+ * with the admin signing key, which browsers check before caching the key.
+ */
+export class AdminKeyShare {
+  static async createLink(gatewayUrl: string | null): Promise<string> {
+    const statement = await this.getStatement();
+    if (!statement) {
+      throw new Error('No admin public key to share');
+    }
+
+    const params = new URLSearchParams({ admin: statement.public_key });
+    if (statement.signing_key) {
+      params.set('signing', statement.signing_key);
+    }
+    params.set('fp', await CryptoUtils.adminFingerprint(statement.public_key, statement.signing_key));
+    if (statement.signature) {
+      params.set('at', statement.issued_at);
+      params.set('sig', statement.signature);
+    }
+    return `${gatewayUrl || FALLBACK_LINK}#${params}`;
+  }
+
+  // Read a scanned or pasted link, refusing one whose keys do not match its fingerprint
+  static async parse(link: string): Promise<SharedAdminKeys> {
+    let url: URL;
+    try {
+      url = new URL(link.trim());
+    } catch {
+      throw new Error('This is not a NINE admin key code');
+    }
+    const params = new URLSearchParams(url.hash.slice(1));
+    const publicKey = params.get('admin');
+    const fingerprint = params.get('fp');
+    if (!publicKey || !fingerprint) {
+      throw new Error('This is not a NINE admin key code');
+    }
+
+    const signingKey = params.get('signing') || undefined;
+    await this.assertKey(publicKey, 'admin public key');
+    if (signingKey) {
+      await this.assertKey(signingKey, 'admin signing key');
+    }
+    if ((await CryptoUtils.adminFingerprint(publicKey, signingKey)) !== fingerprint) {
+      throw new Error('The admin keys do not match their fingerprint. The code may have been altered');
+    }
+
+    let statement: AdminKeyStatement | undefined;
+    const signature = params.get('sig');
+    if (signingKey && signature) {
+      statement = {
+        key_id: await CryptoUtils.fingerprint(publicKey),
+        public_key: publicKey,
+        signing_key: signingKey,
+        issued_at: params.get('at') ?? '',
+        signature,
+      };
+      if (!(await this.verifyStatement(statement))) {
+        throw new Error('The admin key signature is invalid. The code may have been altered');
+      }
+    }
+
+    url.hash = '';
+    const gatewayUrl = url.protocol === 'nine:' ? undefined : url.toString();
+    return { publicKey, signingKey, fingerprint, gatewayUrl, statement };
+  }
+
+  // Call only after the user confirmed the fingerprint with the admin
+  static trust(shared: SharedAdminKeys): void {
+    AdminKeyStore.importAdminPublicKeys(shared.publicKey, shared.signingKey);
+    if (shared.statement) {
+      AdminKeyStore.saveKeyStatement(shared.statement);
+    }
+    this.publish().catch(console.error);
+  }
+
+  /**
+   * The statement for the admin key this node encrypts to. An unlocked admin signs a fresh
+   * one; other nodes pass on the signed statement they imported, or an unsigned one.
+   */
+  static async getStatement(): Promise<AdminKeyStatement | null> {
+    const publicKey = AdminKeyStore.getAdminPublicKey();
+    if (!publicKey) {
+      return null;
+    }
+    const signingKey = AdminKeyStore.getAdminSigningPublicKey() ?? undefined;
+    const stored = AdminKeyStore.getKeyStatement();
+    if (stored?.signature && stored.public_key === publicKey && stored.signing_key === signingKey) {
+      return stored;
+    }
+
+    const statement: AdminKeyStatement = {
+      key_id: await CryptoUtils.fingerprint(publicKey),
+      public_key: publicKey,
+      signing_key: signingKey,
+      issued_at: new Date().toISOString(),
+    };
+    const signingPrivateKey = AdminKeyStore.getAdminSigningPrivateKey();
+    if (signingKey && signingPrivateKey) {
+      statement.signature = await CryptoUtils.sign(this.signedFields(statement), signingPrivateKey);
+      AdminKeyStore.saveKeyStatement(statement);
+    }
+    return statement;
+  }
+
+  // Hand the admin key to the local server, which serves it at GET /gateway/admin-keys
+  static async publish(): Promise<void> {
+    if (!window.electronAPI) {
+      return;
+    }
+    const statement = await this.getStatement();
+    await window.electronAPI.publishAdminKeys(statement ? [statement] : []);
+  }
+
+  // Groups of four hex digits, easier to read out and compare
+  static formatFingerprint(fingerprint: string): string {
+    return fingerprint.match(/.{1,4}/g)?.join(' ') ?? fingerprint;
+  }
+
+  private static async verifyStatement(statement: AdminKeyStatement): Promise<boolean> {
+    if (!statement.signature || !statement.signing_key) {
+      return false;
+    }
+    return CryptoUtils.verify(this.signedFields(statement), statement.signature, statement.signing_key);
+  }
+
+  // Same field list the gateway page checks
+  private static signedFields(statement: AdminKeyStatement): string {
+    return JSON.stringify([
+      'nine-admin-key',
+      statement.key_id,
+      statement.public_key,
+      statement.signing_key ?? null,
+      statement.issued_at,
+    ]);
+  }
+
+  private static async assertKey(key: string, name: string): Promise<void> {
+    let bytes: Uint8Array;
+    try {
+      bytes = await CryptoUtils.fromBase64(key);
+    } catch {
+      throw new Error(`The ${name} is not valid base64`);
+    }
+    if (bytes.length !== KEY_BYTES) {
+      throw new Error(`The ${name} has the wrong length`);
+    }
+  }
+}
@@ -1,10 +1,24 @@
-import { AdminKeyPair } from '../types/message';
+import {
+  AdminKeyPair,
+  AdminKeyStatement,
+  AdminPrivateKeys,
+  RetiredAdminKey,
+  SigningKeyPair,
+} from '../types/message';
 
 const ADMIN_PRIVATE_KEY_STORAGE = 'nine_admin_private_key';
 const ADMIN_PUBLIC_KEY_STORAGE = 'nine_admin_public_key';
+const ADMIN_SIGNING_PRIVATE_KEY_STORAGE = 'nine_admin_signing_private_key';
+const ADMIN_SIGNING_PUBLIC_KEY_STORAGE = 'nine_admin_signing_public_key';
+const ADMIN_SEALED_KEYS_STORAGE = 'nine_admin_sealed_keys';
+const ADMIN_RETIRED_KEYS_STORAGE = 'nine_admin_retired_keys';
+const ADMIN_KEY_STATEMENT_STORAGE = 'nine_admin_key_statement';
 const ADMIN_MODE_STORAGE = 'nine_is_admin';
 
 export class AdminKeyStore {
+  // Private keys opened from their sealed form, held only in memory while admin mode is unlocked
+  private static unlockedKeys: AdminPrivateKeys | null = null;
+
   static setAdminMode(isAdmin: boolean): void {
     localStorage.setItem(ADMIN_MODE_STORAGE, JSON.stringify(isAdmin));
   }
@@ -21,7 +35,7 @@ export class AdminKeyStore {
   }
 
   static getAdminPrivateKey(): string | null {
-    return localStorage.getItem(ADMIN_PRIVATE_KEY_STORAGE);
+    return localStorage.getItem(ADMIN_PRIVATE_KEY_STORAGE) ?? this.unlockedKeys?.privateKey ?? null;
   }
 
   static getAdminPublicKey(): string | null {
@@ -39,13 +53,122 @@ export class AdminKeyStore {
     return { privateKey, publicKey };
   }
 
+  // True while the private key is sealed and locked too, so a locked admin is never re-keyed
   static hasAdminKeys(): boolean {
-    return this.getAdminPrivateKey() !== null && this.getAdminPublicKey() !== null;
+    return (
+      (this.getAdminPrivateKey() !== null || this.getSealedPrivateKeys() !== null) &&
+      this.getAdminPublicKey() !== null
+    );
+  }
+
+  static saveAdminSigningKeyPair(keyPair: SigningKeyPair): void {
+    localStorage.setItem(ADMIN_SIGNING_PRIVATE_KEY_STORAGE, keyPair.privateKey);
+    localStorage.setItem(ADMIN_SIGNING_PUBLIC_KEY_STORAGE, keyPair.publicKey);
+  }
+
+  static getAdminSigningPrivateKey(): string | null {
+    return (
+      localStorage.getItem(ADMIN_SIGNING_PRIVATE_KEY_STORAGE) ??
+      this.unlockedKeys?.signingPrivateKey ??
+      null
+    );
+  }
+
+  // On non-admin nodes this is the key official alerts are verified against
+  static getAdminSigningPublicKey(): string | null {
+    return localStorage.getItem(ADMIN_SIGNING_PUBLIC_KEY_STORAGE);
+  }
+
+  static hasAdminSigningKeys(): boolean {
+    return (
+      (this.getAdminSigningPrivateKey() !== null ||
+        Boolean(this.getSealedPrivateKeys()?.signingPrivateKey)) &&
+      this.getAdminSigningPublicKey() !== null
+    );
+  }
+
+  static getSealedPrivateKeys(): AdminPrivateKeys | null {
+    const value = localStorage.getItem(ADMIN_SEALED_KEYS_STORAGE);
+    return value ? JSON.parse(value) : null;
+  }
+
+  // Replaces the plaintext private keys with their sealed form
+  static saveSealedPrivateKeys(sealed: AdminPrivateKeys): void {
+    localStorage.setItem(ADMIN_SEALED_KEYS_STORAGE, JSON.stringify(sealed));
+    localStorage.removeItem(ADMIN_PRIVATE_KEY_STORAGE);
+    localStorage.removeItem(ADMIN_SIGNING_PRIVATE_KEY_STORAGE);
+    localStorage.removeItem(ADMIN_RETIRED_KEYS_STORAGE);
+  }
+
+  // Keypairs replaced by a rotation, newest first, kept so older messages still decrypt
+  static getRetiredKeys(): RetiredAdminKey[] {
+    const value =
+      localStorage.getItem(ADMIN_RETIRED_KEYS_STORAGE) ?? this.unlockedKeys?.retiredKeys ?? null;
+    return value ? JSON.parse(value) : [];
+  }
+
+  static saveRetiredKeys(retiredKeys: RetiredAdminKey[]): void {
+    localStorage.setItem(ADMIN_RETIRED_KEYS_STORAGE, JSON.stringify(retiredKeys));
+  }
+
+  static retireAdminKeyPair(keyPair: AdminKeyPair, keyId: string): void {
+    this.saveRetiredKeys([
+      { ...keyPair, keyId, retiredAt: new Date().toISOString() },
+      ...this.getRetiredKeys(),
+    ]);
+  }
+
+  // The current keypair followed by every retired one
+  static getKeyring(): AdminKeyPair[] {
+    const current = this.getAdminKeyPair();
+    const retired = this.getRetiredKeys().map(({ publicKey, privateKey }) => ({
+      publicKey,
+      privateKey,
+    }));
+    return current ? [current, ...retired] : retired;
+  }
+
+  static setUnlockedPrivateKeys(keys: AdminPrivateKeys | null): void {
+    this.unlockedKeys = keys;
+  }
+
+  /**
+   * Lets a non-admin node encrypt to, and verify alerts from, an admin it trusts. The keys are
+   * trusted as the pair the user confirmed, so importing none clears an older signing key.
+   */
+  static importAdminPublicKeys(publicKey: string, signingPublicKey?: string): void {
+    localStorage.setItem(ADMIN_PUBLIC_KEY_STORAGE, publicKey);
+    if (signingPublicKey) {
+      localStorage.setItem(ADMIN_SIGNING_PUBLIC_KEY_STORAGE, signingPublicKey);
+    } else {
+      localStorage.removeItem(ADMIN_SIGNING_PUBLIC_KEY_STORAGE);
+    }
+  }
+
+  // A signed key rotation replaces the encryption key only; the signing key that vouched for it stays
+  static replaceAdminPublicKey(publicKey: string): void {
+    localStorage.setItem(ADMIN_PUBLIC_KEY_STORAGE, publicKey);
+  }
+
+  // Last signed statement for the admin key, kept so it can be passed on while the signer is away
+  static getKeyStatement(): AdminKeyStatement | null {
+    const value = localStorage.getItem(ADMIN_KEY_STATEMENT_STORAGE);
+    return value ? JSON.parse(value) : null;
+  }
+
+  static saveKeyStatement(statement: AdminKeyStatement): void {
+    localStorage.setItem(ADMIN_KEY_STATEMENT_STORAGE, JSON.stringify(statement));
   }
 
   static clearAdminKeys(): void {
     localStorage.removeItem(ADMIN_PRIVATE_KEY_STORAGE);
     localStorage.removeItem(ADMIN_PUBLIC_KEY_STORAGE);
+    localStorage.removeItem(ADMIN_SIGNING_PRIVATE_KEY_STORAGE);
+    localStorage.removeItem(ADMIN_SIGNING_PUBLIC_KEY_STORAGE);
+    localStorage.removeItem(ADMIN_SEALED_KEYS_STORAGE);
+    localStorage.removeItem(ADMIN_RETIRED_KEYS_STORAGE);
+    localStorage.removeItem(ADMIN_KEY_STATEMENT_STORAGE);
+    this.unlockedKeys = null;
     this.setAdminMode(false);
   }
 
@@ -0,0 +1,260 @@
+import {
+  AdminPrivateKeys,
+  DecryptedMessage,
+  IncidentCase,
+  StoredDecryptedMessage,
+  StoredIncidentCase,
+} from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+import { AdminKeyStore } from './adminKeyStore';
+import { MessageStore } from './messageStore';
+
+const ADMIN_VAULT_STORAGE = 'nine_admin_vault';
+const VAULT_CHECK = 'nine-admin-vault';
+
+interface VaultConfig {
+  salt: string;
+  check: string; // VAULT_CHECK sealed with the vault key, to tell a wrong passphrase apart
+}
+
+export type LockChangeHandler = (locked: boolean) => void;
+
+/**
+ * Passphrase lock for admin mode. Once set up, the admin private keys, decrypted
+ * messages and their cases are only stored sealed with a key derived from the
+ * passphrase, and that key lives in memory until the console locks.
+ */
+export class AdminVault {
+  static readonly AUTO_LOCK_MS = 5 * 60 * 1000;
+  private static readonly LOCK_CHECK_INTERVAL_MS = 15 * 1000;
+
+  private static key: Uint8Array | null = null;
+  private static lastActivity = Date.now();
+  private static lockTimer: ReturnType<typeof setInterval> | null = null;
+  private static lockHandlers: LockChangeHandler[] = [];
+
+  static isConfigured(): boolean {
+    return localStorage.getItem(ADMIN_VAULT_STORAGE) !== null;
+  }
+
+  static isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  static isLocked(): boolean {
+    return this.isConfigured() && !this.isUnlocked();
+  }
+
+  static async setup(passphrase: string): Promise<void> {
+    if (this.isConfigured()) {
+      throw new Error('An admin passphrase is already set');
+    }
+
+    const salt = await CryptoUtils.generatePassphraseSalt();
+    const key = await CryptoUtils.deriveKeyFromPassphrase(passphrase, salt);
+    const config: VaultConfig = { salt, check: await CryptoUtils.encryptMessage(VAULT_CHECK, key) };
+    localStorage.setItem(ADMIN_VAULT_STORAGE, JSON.stringify(config));
+
+    this.key = key;
+    await this.sealAdminKeys();
+    await this.sealStoredMessages();
+    this.startAutoLock();
+    this.notify(false);
+  }
+
+  static async unlock(passphrase: string): Promise<void> {
+    const config = this.getConfig();
+    if (!config) {
+      throw new Error('No admin passphrase is set');
+    }
+
+    const key = await CryptoUtils.deriveKeyFromPassphrase(passphrase, config.salt);
+    try {
+      await CryptoUtils.decryptMessage(config.check, key);
+    } catch {
+      throw new Error('Wrong passphrase');
+    }
+
+    this.key = key;
+    const sealed = AdminKeyStore.getSealedPrivateKeys();
+    if (sealed) {
+      AdminKeyStore.setUnlockedPrivateKeys({
+        privateKey: await this.open(sealed.privateKey),
+        signingPrivateKey: sealed.signingPrivateKey
+          ? await this.open(sealed.signingPrivateKey)
+          : null,
+        retiredKeys: sealed.retiredKeys ? await this.open(sealed.retiredKeys) : null,
+      });
+    }
+    // Keys restored from a backup while locked are still in plaintext
+    await this.sealAdminKeys();
+
+    this.startAutoLock();
+    this.notify(false);
+  }
+
+  static lock(): void {
+    if (!this.key) {
+      return;
+    }
+    this.key = null;
+    AdminKeyStore.setUnlockedPrivateKeys(null);
+    this.stopAutoLock();
+    this.notify(true);
+  }
+
+  // Forget the passphrase along with the admin keys it protected
+  static reset(): void {
+    this.lock();
+    localStorage.removeItem(ADMIN_VAULT_STORAGE);
+  }
+
+  static touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  static onLockChange(handler: LockChangeHandler): () => void {
+    this.lockHandlers.push(handler);
+    return () => {
+      this.lockHandlers = this.lockHandlers.filter((existing) => existing !== handler);
+    };
+  }
+
+  /**
+   * Seal the current admin private keys under the vault key. Called after new keys are
+   * generated or restored so they do not stay in plaintext.
+   */
+  static async sealAdminKeys(): Promise<void> {
+    const privateKey = AdminKeyStore.getAdminPrivateKey();
+    if (!this.key || !privateKey) {
+      return;
+    }
+
+    const retiredKeys = AdminKeyStore.getRetiredKeys();
+    const keys: AdminPrivateKeys = {
+      privateKey,
+      signingPrivateKey: AdminKeyStore.getAdminSigningPrivateKey(),
+      retiredKeys: retiredKeys.length ? JSON.stringify(retiredKeys) : null,
+    };
+    AdminKeyStore.saveSealedPrivateKeys({
+      privateKey: await this.seal(keys.privateKey),
+      signingPrivateKey: keys.signingPrivateKey ? await this.seal(keys.signingPrivateKey) : null,
+      retiredKeys: keys.retiredKeys ? await this.seal(keys.retiredKeys) : null,
+    });
+    AdminKeyStore.setUnlockedPrivateKeys(keys);
+  }
+
+  static async sealDecryptedMessage(message: DecryptedMessage): Promise<StoredDecryptedMessage> {
+    if (!this.isConfigured()) {
+      return message;
+    }
+    return {
+      msg_id: message.msg_id,
+      timestamp: message.timestamp,
+      sealed: await this.seal(JSON.stringify(message)),
+    };
+  }
+
+  // Null while locked, or when the record cannot be opened
+  static async openDecryptedMessage(
+    stored: StoredDecryptedMessage
+  ): Promise<DecryptedMessage | null> {
+    if (!('sealed' in stored)) {
+      return stored;
+    }
+    if (!this.key) {
+      return null;
+    }
+    try {
+      return JSON.parse(await this.open(stored.sealed)) as DecryptedMessage;
+    } catch (error) {
+      console.error(`Failed to open sealed message ${stored.msg_id}:`, error);
+      return null;
+    }
+  }
+
+  static async sealIncidentCase(incidentCase: IncidentCase): Promise<StoredIncidentCase> {
+    if (!this.isConfigured()) {
+      return incidentCase;
+    }
+    return {
+      msg_id: incidentCase.msg_id,
+      timestamp: incidentCase.timestamp,
+      sealed: await this.seal(JSON.stringify(incidentCase)),
+    };
+  }
+
+  // Null while locked, or when the record cannot be opened
+  static async openIncidentCase(stored: StoredIncidentCase): Promise<IncidentCase | null> {
+    if (!('sealed' in stored)) {
+      return stored;
+    }
+    if (!this.key) {
+      return null;
+    }
+    try {
+      return JSON.parse(await this.open(stored.sealed)) as IncidentCase;
+    } catch (error) {
+      console.error(`Failed to open sealed case ${stored.msg_id}:`, error);
+      return null;
+    }
+  }
+
+  private static async sealStoredMessages(): Promise<void> {
+    const stored = await MessageStore.getDecryptedMessages();
+    for (const message of stored) {
+      if (!('sealed' in message)) {
+        await MessageStore.saveDecryptedMessage(await this.sealDecryptedMessage(message));
+      }
+    }
+
+    const cases = await MessageStore.getCases();
+    for (const incidentCase of cases) {
+      if (!('sealed' in incidentCase)) {
+        await MessageStore.saveCase(await this.sealIncidentCase(incidentCase));
+      }
+    }
+  }
+
+  private static async seal(plaintext: string): Promise<string> {
+    if (!this.key) {
+      throw new Error('Admin mode is locked');
+    }
+    return CryptoUtils.encryptMessage(plaintext, this.key);
+  }
+
+  private static async open(sealed: string): Promise<string> {
+    if (!this.key) {
+      throw new Error('Admin mode is locked');
+    }
+    return CryptoUtils.decryptMessage(sealed, this.key);
+  }
+
+  private static getConfig(): VaultConfig | null {
+    const value = localStorage.getItem(ADMIN_VAULT_STORAGE);
+    return value ? (JSON.parse(value) as VaultConfig) : null;
+  }
+
+  private static startAutoLock(): void {
+    this.touch();
+    if (this.lockTimer) {
+      return;
+    }
+    this.lockTimer = setInterval(() => {
+      if (Date.now() - this.lastActivity >= this.AUTO_LOCK_MS) {
+        this.lock();
+      }
+    }, this.LOCK_CHECK_INTERVAL_MS);
+  }
+
+  private static stopAutoLock(): void {
+    if (this.lockTimer) {
+      clearInterval(this.lockTimer);
+      this.lockTimer = null;
+    }
+  }
+
+  private static notify(locked: boolean): void {
+    this.lockHandlers.forEach((handler) => handler(locked));
+  }
+}
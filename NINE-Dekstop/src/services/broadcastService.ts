@@ -1,9 +1,17 @@
-import { MessageEnvelope, MessageMeta } from '../types/message';
+import { MessageEnvelope, MessageMeta, AlertPriority } from '../types/message';
 import { MessageFactory } from './messageFactory';
 import { MessageStore } from './messageStore';
 import { MeshNetwork } from './meshNetwork';
+import { AdminKeyStore } from './adminKeyStore';
+
+const PRIORITY_RANK: Record<AlertPriority, number> = {
+  evacuation: 3,
+  warning: 2,
+  info: 1,
+};
 
 export class BroadcastService {
+  private static readonly PAGE_SIZE = 200;
   private meshNetwork: MeshNetwork;
 
   constructor() {
@@ -12,38 +20,63 @@ export class BroadcastService {
     this.meshNetwork.initialize().catch(console.error);
   }
 
+  /**
+   * Passing a priority makes this an official alert, countersigned with the admin signing key.
+   */
   async createBroadcast(
     content: string,
-    meta?: MessageMeta
+    meta?: MessageMeta,
+    priority?: AlertPriority
   ): Promise<MessageEnvelope> {
-    const message = MessageFactory.createBroadcastMessage(content, meta);
+    let alert;
+    if (priority) {
+      const adminSigningKey = AdminKeyStore.getAdminSigningPrivateKey();
+      if (!AdminKeyStore.isAdminMode() || !adminSigningKey) {
+        throw new Error('Official alerts can only be sent from admin mode');
+      }
+      alert = { priority, adminSigningKey };
+    }
+
+    const message = await MessageFactory.createBroadcastMessage(content, meta, alert);
 
-    MessageStore.saveBroadcast(message);
-    this.meshNetwork.broadcastMessage(message);
+    await MessageStore.saveBroadcast(message);
+    await this.meshNetwork.broadcastMessage(message);
 
     return message;
   }
 
-  getBroadcasts(): MessageEnvelope[] {
-    return MessageStore.getBroadcasts();
+  // Received broadcasts are stored with the rest of the message mesh, so query it by type
+  async getBroadcasts(offset = 0, limit = BroadcastService.PAGE_SIZE): Promise<MessageEnvelope[]> {
+    return MessageStore.getMessageEnvelopes({ type: 'broadcast', offset, limit });
   }
 
-  getBroadcastById(msgId: string): MessageEnvelope | undefined {
-    return this.getBroadcasts().find((msg) => msg.msg_id === msgId);
+  async getBroadcastById(msgId: string): Promise<MessageEnvelope | undefined> {
+    const message = await MessageStore.getMessageEnvelopeById(msgId);
+    return message?.type === 'broadcast' ? message : undefined;
   }
 
-  getAllBroadcastsSorted(): MessageEnvelope[] {
-    return this.getBroadcasts().sort(
-      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  // Verified official alerts are pinned above everything else, highest priority first
+  async getAllBroadcastsSorted(): Promise<MessageEnvelope[]> {
+    const broadcasts = await this.getBroadcasts();
+    const priorities = await Promise.all(
+      broadcasts.map((message) => MessageFactory.verifyOfficialAlert(message))
     );
-  }
 
-  getBroadcastsWithinLastMinutes(minutes: number): MessageEnvelope[] {
-    const now = Date.now();
-    const cutoff = now - minutes * 60 * 1000;
+    return broadcasts
+      .map((message, index) => {
+        const priority = priorities[index];
+        return { message, rank: priority ? PRIORITY_RANK[priority] : 0 };
+      })
+      .sort(
+        (a, b) =>
+          b.rank - a.rank ||
+          new Date(b.message.timestamp).getTime() - new Date(a.message.timestamp).getTime()
+      )
+      .map(({ message }) => message);
+  }
 
-    return this.getAllBroadcastsSorted().filter(
-      (msg) => new Date(msg.timestamp).getTime() > cutoff
-    );
+  async getBroadcastsWithinLastMinutes(minutes: number): Promise<MessageEnvelope[]> {
+    const cutoff = new Date(Date.now() - minutes * 60 * 1000).toISOString();
+    return MessageStore.getMessageEnvelopes({ type: 'broadcast', since: cutoff });
   }
 }
@@ -0,0 +1,133 @@
+import { CaseEvent, CaseStatus, IncidentCase } from '../types/message';
+import { AdminKeyStore } from './adminKeyStore';
+import { AdminVault } from './adminVault';
+import { MessageStore } from './messageStore';
+import { NodeIdentity } from './nodeIdentity';
+
+/**
+ * Admin-side case handling for decrypted reports: status, assignment to a responder and
+ * internal notes. Every change is appended to the case's audit trail. Cases never leave
+ * the admin node and are sealed with the other admin data once a passphrase is set.
+ */
+export class CaseManager {
+  static readonly STATUSES: CaseStatus[] = ['open', 'acknowledged', 'dispatched', 'resolved'];
+  private static readonly MAX_NOTE = 2000;
+  private static readonly MAX_ASSIGNEE = 100;
+
+  // A report nobody has acted on yet is an open case with no history
+  static newCase(msgId: string): IncidentCase {
+    return { msg_id: msgId, timestamp: new Date().toISOString(), status: 'open', notes: [], audit: [] };
+  }
+
+  static async getCases(): Promise<Record<string, IncidentCase>> {
+    if (!AdminKeyStore.isAdminMode() || AdminVault.isLocked()) {
+      return {};
+    }
+    const stored = await MessageStore.getCases();
+    const opened = await Promise.all(stored.map((record) => AdminVault.openIncidentCase(record)));
+
+    const cases: Record<string, IncidentCase> = {};
+    opened.forEach((incidentCase) => {
+      if (incidentCase) {
+        cases[incidentCase.msg_id] = incidentCase;
+      }
+    });
+    return cases;
+  }
+
+  static async getCase(msgId: string): Promise<IncidentCase> {
+    this.assertUnlocked();
+    const stored = await MessageStore.getCaseById(msgId);
+    const opened = stored && (await AdminVault.openIncidentCase(stored));
+    return opened || this.newCase(msgId);
+  }
+
+  static async setStatus(msgId: string, status: CaseStatus): Promise<IncidentCase> {
+    if (!this.STATUSES.includes(status)) {
+      throw new Error(`Unknown case status: ${status}`);
+    }
+    return this.update(msgId, (incidentCase) => {
+      if (incidentCase.status === status) {
+        return null;
+      }
+      const detail = `${this.label(incidentCase.status)} → ${this.label(status)}`;
+      incidentCase.status = status;
+      return { action: 'status', detail };
+    });
+  }
+
+  // An empty assignee takes the case off whoever had it
+  static async assign(msgId: string, assignee: string): Promise<IncidentCase> {
+    const name = assignee.trim();
+    if (name.length > this.MAX_ASSIGNEE) {
+      throw new Error(`Assignee is longer than ${this.MAX_ASSIGNEE} characters`);
+    }
+    return this.update(msgId, (incidentCase) => {
+      if ((incidentCase.assignee || '') === name) {
+        return null;
+      }
+      incidentCase.assignee = name || undefined;
+      return { action: 'assigned', detail: name ? `Assigned to ${name}` : 'Unassigned' };
+    });
+  }
+
+  static async addNote(msgId: string, text: string): Promise<IncidentCase> {
+    const note = text.trim();
+    if (!note) {
+      throw new Error('Note is empty');
+    }
+    if (note.length > this.MAX_NOTE) {
+      throw new Error(`Note is longer than ${this.MAX_NOTE} characters`);
+    }
+    return this.update(msgId, (incidentCase, by, at) => {
+      incidentCase.notes.push({ text: note, author: by, at });
+      return { action: 'note', detail: 'Added a note' };
+    });
+  }
+
+  // Replies themselves go out through ReplyService; the case keeps what was said
+  static async recordReply(msgId: string, text: string): Promise<IncidentCase> {
+    return this.update(msgId, () => ({ action: 'reply', detail: `Replied: ${text.trim()}` }));
+  }
+
+  static async recordReceipt(msgId: string, detail: string): Promise<IncidentCase> {
+    return this.update(msgId, () => ({ action: 'receipt', detail }));
+  }
+
+  static label(status: CaseStatus): string {
+    return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+
+  // Apply a change and record it in the audit trail; a change that returns null is a no-op
+  private static async update(
+    msgId: string,
+    change: (
+      incidentCase: IncidentCase,
+      by: string,
+      at: string
+    ) => Pick<CaseEvent, 'action' | 'detail'> | null
+  ): Promise<IncidentCase> {
+    const incidentCase = await this.getCase(msgId);
+    const by = await NodeIdentity.getPseudoId();
+    const at = new Date().toISOString();
+
+    const event = change(incidentCase, by, at);
+    if (!event) {
+      return incidentCase;
+    }
+
+    incidentCase.audit.push({ ...event, by, at });
+    incidentCase.timestamp = at;
+    await MessageStore.saveCase(await AdminVault.sealIncidentCase(incidentCase));
+    return incidentCase;
+  }
+
+  private static assertUnlocked(): void {
+    if (!AdminKeyStore.isAdminMode()) {
+      throw new Error('Admin mode is not active');
+    }
+    if (AdminVault.isLocked()) {
+      throw new Error('Admin mode is locked');
+    }
+  }
+}
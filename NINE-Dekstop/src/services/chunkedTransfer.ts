@@ -0,0 +1,258 @@
+import { v4 as uuidv4 } from 'uuid';
+
+export interface TransferProgress {
+  transferId: string;
+  direction: 'incoming' | 'outgoing';
+  done: number;
+  total: number;
+  status: 'active' | 'complete' | 'failed';
+}
+
+export type TransferProgressHandler = (progress: TransferProgress) => void;
+
+// Wire frames of the chunked transfer protocol, shared with the mesh servers (electron/transfer.js)
+export interface ChunkManifestFrame {
+  type: 'chunk_manifest';
+  transfer_id: string;
+  total: number;
+  size: number;
+  hash: string; // SHA-256 hex of the whole serialized frame
+}
+
+export interface ChunkFrame {
+  type: 'chunk';
+  transfer_id: string;
+  index: number;
+  data: string;
+}
+
+export interface ChunkRequestFrame {
+  type: 'chunk_request';
+  transfer_id: string;
+  missing: number[];
+}
+
+type TransferFrame = ChunkManifestFrame | ChunkFrame | ChunkRequestFrame;
+
+interface IncomingTransfer {
+  manifest: ChunkManifestFrame;
+  chunks: (string | undefined)[];
+  received: number;
+  requests: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Splits frames above a size threshold into numbered chunks so one large envelope does not
+ * hold up a link, and puts them back together on the other side. Chunks still missing after
+ * a quiet period are requested again; the transfer is dropped after a few attempts.
+ */
+export class ChunkedTransfer {
+  static readonly THRESHOLD = 64 * 1024;
+  static readonly CHUNK_SIZE = 16 * 1024;
+  private static readonly REQUEST_AFTER_MS = 5000;
+  private static readonly MAX_REQUESTS = 3;
+  private static readonly OUTGOING_TTL_MS = 60 * 1000;
+  private static readonly MAX_BUFFERED = 256 * 1024;
+
+  private incoming = new Map<string, IncomingTransfer>();
+  private outgoing = new Map<string, string[]>();
+  private progressHandlers: TransferProgressHandler[] = [];
+
+  static isTransferFrame(message: { type?: string }): message is TransferFrame {
+    return (
+      message.type === 'chunk_manifest' ||
+      message.type === 'chunk' ||
+      message.type === 'chunk_request'
+    );
+  }
+
+  /**
+   * Send a serialized frame, in chunks when it is above the threshold. Chunks are paced
+   * against the socket's buffer so other frames can go out in between.
+   */
+  async send(ws: WebSocket, data: string): Promise<void> {
+    if (data.length <= ChunkedTransfer.THRESHOLD) {
+      ws.send(data);
+      return;
+    }
+
+    const transferId = uuidv4();
+    const chunks: string[] = [];
+    for (let offset = 0; offset < data.length; offset += ChunkedTransfer.CHUNK_SIZE) {
+      chunks.push(data.slice(offset, offset + ChunkedTransfer.CHUNK_SIZE));
+    }
+
+    // Kept for a while so the receiver can ask for chunks again
+    this.outgoing.set(transferId, chunks);
+    setTimeout(() => this.outgoing.delete(transferId), ChunkedTransfer.OUTGOING_TTL_MS);
+
+    const manifest: ChunkManifestFrame = {
+      type: 'chunk_manifest',
+      transfer_id: transferId,
+      total: chunks.length,
+      size: data.length,
+      hash: await ChunkedTransfer.hash(data),
+    };
+    ws.send(JSON.stringify(manifest));
+
+    for (let index = 0; index < chunks.length; index++) {
+      while (ws.bufferedAmount > ChunkedTransfer.MAX_BUFFERED) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      if (ws.readyState !== WebSocket.OPEN) {
+        this.emit({ transferId, direction: 'outgoing', done: index, total: chunks.length, status: 'failed' });
+        return;
+      }
+      ws.send(ChunkedTransfer.chunkFrame(transferId, index, chunks[index]));
+      this.emit({
+        transferId,
+        direction: 'outgoing',
+        done: index + 1,
+        total: chunks.length,
+        status: index + 1 === chunks.length ? 'complete' : 'active',
+      });
+    }
+  }
+
+  /**
+   * Handle a transfer frame from `ws`. Resolves to the reassembled frame once the last
+   * chunk of a transfer arrives and matches the manifest hash, otherwise to null.
+   */
+  async receive(ws: WebSocket, message: TransferFrame): Promise<unknown | null> {
+    if (message.type === 'chunk_request') {
+      this.resend(ws, message);
+      return null;
+    }
+
+    if (message.type === 'chunk_manifest') {
+      if (!this.incoming.has(message.transfer_id) && message.total > 0) {
+        this.incoming.set(message.transfer_id, {
+          manifest: message,
+          chunks: new Array(message.total),
+          received: 0,
+          requests: 0,
+          timer: this.scheduleRequest(ws, message.transfer_id),
+        });
+        this.emitIncoming(message.transfer_id, 'active');
+      }
+      return null;
+    }
+
+    const transfer = this.incoming.get(message.transfer_id);
+    if (!transfer || transfer.chunks[message.index] !== undefined) {
+      return null;
+    }
+    if (message.index < 0 || message.index >= transfer.manifest.total) {
+      return null;
+    }
+
+    transfer.chunks[message.index] = message.data;
+    transfer.received++;
+    clearTimeout(transfer.timer);
+
+    if (transfer.received < transfer.manifest.total) {
+      transfer.timer = this.scheduleRequest(ws, message.transfer_id);
+      this.emitIncoming(message.transfer_id, 'active');
+      return null;
+    }
+
+    this.incoming.delete(message.transfer_id);
+    const data = transfer.chunks.join('');
+    if (
+      data.length !== transfer.manifest.size ||
+      (await ChunkedTransfer.hash(data)) !== transfer.manifest.hash
+    ) {
+      console.warn(`Dropping transfer ${message.transfer_id} that does not match its manifest`);
+      this.emitProgress(transfer, 'failed');
+      return null;
+    }
+
+    this.emitProgress(transfer, 'complete');
+    return JSON.parse(data);
+  }
+
+  // Give up on everything in flight, e.g. when the link goes down
+  reset(): void {
+    this.incoming.forEach((transfer) => {
+      clearTimeout(transfer.timer);
+      this.emitProgress(transfer, 'failed');
+    });
+    this.incoming.clear();
+  }
+
+  onProgress(handler: TransferProgressHandler): void {
+    this.progressHandlers.push(handler);
+  }
+
+  private scheduleRequest(ws: WebSocket, transferId: string): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      const transfer = this.incoming.get(transferId);
+      if (!transfer) {
+        return;
+      }
+
+      if (transfer.requests >= ChunkedTransfer.MAX_REQUESTS || ws.readyState !== WebSocket.OPEN) {
+        console.warn(`Transfer ${transferId} timed out with ${transfer.received}/${transfer.manifest.total} chunks`);
+        this.incoming.delete(transferId);
+        this.emitProgress(transfer, 'failed');
+        return;
+      }
+
+      const missing: number[] = [];
+      for (let index = 0; index < transfer.manifest.total; index++) {
+        if (transfer.chunks[index] === undefined) {
+          missing.push(index);
+        }
+      }
+      const request: ChunkRequestFrame = { type: 'chunk_request', transfer_id: transferId, missing };
+      ws.send(JSON.stringify(request));
+
+      transfer.requests++;
+      transfer.timer = this.scheduleRequest(ws, transferId);
+    }, ChunkedTransfer.REQUEST_AFTER_MS);
+  }
+
+  private resend(ws: WebSocket, request: ChunkRequestFrame): void {
+    const chunks = this.outgoing.get(request.transfer_id);
+    if (!chunks || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    for (const index of request.missing) {
+      if (chunks[index] !== undefined) {
+        ws.send(ChunkedTransfer.chunkFrame(request.transfer_id, index, chunks[index]));
+      }
+    }
+  }
+
+  private emitIncoming(transferId: string, status: TransferProgress['status']): void {
+    const transfer = this.incoming.get(transferId);
+    if (transfer) {
+      this.emitProgress(transfer, status);
+    }
+  }
+
+  private emitProgress(transfer: IncomingTransfer, status: TransferProgress['status']): void {
+    this.emit({
+      transferId: transfer.manifest.transfer_id,
+      direction: 'incoming',
+      done: transfer.received,
+      total: transfer.manifest.total,
+      status,
+    });
+  }
+
+  private emit(progress: TransferProgress): void {
+    this.progressHandlers.forEach((handler) => handler(progress));
+  }
+
+  private static chunkFrame(transferId: string, index: number, data: string): string {
+    const frame: ChunkFrame = { type: 'chunk', transfer_id: transferId, index, data };
+    return JSON.stringify(frame);
+  }
+
+  private static async hash(data: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
@@ -1,24 +1,56 @@
-import { MessageEnvelope, KeyEnvelope, DecryptedMessage, MessageMeta } from '../types/message';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MessageEnvelope,
+  KeyEnvelope,
+  DecryptedMessage,
+  DecryptedAttachment,
+  MessageMeta,
+  AttachmentManifest,
+  IncidentReport,
+} from '../types/message';
+import { IncidentReports } from './incidentReports';
 import { CryptoUtils } from '../utils/crypto';
 import { MessageFactory } from './messageFactory';
 import { MessageStore } from './messageStore';
 import { MeshNetwork } from './meshNetwork';
 import { AdminKeyStore } from './adminKeyStore';
+import { RecipientGroupStore } from './recipientGroupStore';
+import { AdminVault } from './adminVault';
+import { ReplyService } from './replyService';
+import { ReceiptService } from './receiptService';
+
+export interface AttachmentFile {
+  name: string;
+  mime: string;
+  data: Uint8Array;
+}
 
 export class E2EService {
+  static readonly MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+  private static readonly ATTACHMENT_CHUNK_BYTES = 32 * 1024;
+  private static readonly PAGE_SIZE = 200;
+  // Components create their own instances; the mesh listeners are set up by the first only
+  private static listening = false;
+  // Reports this process has sent the 'decrypted' receipt for, so concurrent decryptions send one
+  private static decryptedReceipts = new Set<string>();
   private meshNetwork: MeshNetwork;
 
   constructor() {
     this.meshNetwork = MeshNetwork.getInstance();
     // Initialize if not already done
     this.meshNetwork.initialize().catch(console.error);
-    this.setupMessageListeners();
+    if (!E2EService.listening) {
+      E2EService.listening = true;
+      this.setupMessageListeners();
+    }
   }
 
   private setupMessageListeners(): void {
     this.meshNetwork.onMessage((message) => {
       if (message.type === 'e2e' && AdminKeyStore.isAdminMode()) {
         this.tryDecryptMessage(message);
+      } else if (message.type === 'attachment' && message.chunk && AdminKeyStore.isAdminMode()) {
+        this.tryAssembleAttachment(message.chunk.parent_msg_id).catch(console.error);
       }
     });
 
@@ -29,37 +61,129 @@ export class E2EService {
     });
   }
 
+  /**
+   * Encrypt a message for the trusted admin, or for every member of a recipient group
+   * when `groupId` is given. The session key is wrapped once per recipient. An attachment
+   * is encrypted with the same session key and sent as separate chunk envelopes.
+   * Incident reports are validated against the schema before they are encrypted.
+   * Each message carries its own reply key so the admin can answer it.
+   */
   async createE2EMessage(
-    content: string,
-    meta?: MessageMeta
+    content: string | IncidentReport,
+    meta?: MessageMeta,
+    groupId?: string,
+    attachment?: AttachmentFile
   ): Promise<{ messageEnvelope: MessageEnvelope; keyEnvelope: KeyEnvelope }> {
+    if (attachment && attachment.data.length > E2EService.MAX_ATTACHMENT_BYTES) {
+      throw new Error(
+        `Attachments are limited to ${E2EService.MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+      );
+    }
+
+    const group = groupId ? RecipientGroupStore.getGroup(groupId) : undefined;
+    if (groupId && !group) {
+      throw new Error('Recipient group not found');
+    }
+    if (group && group.members.length === 0) {
+      throw new Error(`Recipient group "${group.name}" has no members`);
+    }
+    if (group && group.members.length > RecipientGroupStore.MAX_MEMBERS) {
+      throw new Error(
+        `Recipient group "${group.name}" has more than ${RecipientGroupStore.MAX_MEMBERS} members, which relays refuse`
+      );
+    }
+
     const adminPublicKey = AdminKeyStore.getAdminPublicKey();
-    if (!adminPublicKey) {
+    if (!group && !adminPublicKey) {
       throw new Error('Admin public key not available');
     }
 
     await CryptoUtils.initialize();
 
     const sessionKey = CryptoUtils.generateSessionKey();
-    const encryptedPayload = await CryptoUtils.encryptMessage(content, sessionKey);
+    const encryptedPayload = await CryptoUtils.encryptMessage(
+      typeof content === 'string' ? content : IncidentReports.encode(content),
+      sessionKey
+    );
 
-    const messageEnvelope = MessageFactory.createE2EMessageEnvelope(
+    const replyKey = await ReplyService.createReplyKey();
+    const attachmentId = attachment ? uuidv4() : undefined;
+    const messageEnvelope = await MessageFactory.createE2EMessageEnvelope(
       encryptedPayload,
-      meta
+      attachmentId ? { ...meta, imageRef: attachmentId } : meta,
+      await CryptoUtils.encryptMessage(replyKey.publicKey, sessionKey)
     );
+    ReplyService.saveReplyKey(messageEnvelope.msg_id, replyKey);
+    ReceiptService.trackReport(messageEnvelope.msg_id);
 
-    const wrappedKey = await CryptoUtils.wrapSessionKey(sessionKey, adminPublicKey);
-    const keyEnvelope = MessageFactory.createKeyEnvelope(messageEnvelope.msg_id, wrappedKey);
+    const keyEnvelope = group
+      ? await MessageFactory.createGroupKeyEnvelope(
+          messageEnvelope.msg_id,
+          group.name,
+          await Promise.all(
+            group.members.map(async (member) => ({
+              key_id: await CryptoUtils.fingerprint(member.publicKey),
+              wrapped_key: await CryptoUtils.wrapSessionKey(sessionKey, member.publicKey),
+            }))
+          )
+        )
+      : await MessageFactory.createKeyEnvelope(
+          messageEnvelope.msg_id,
+          await CryptoUtils.wrapSessionKey(sessionKey, adminPublicKey!),
+          await CryptoUtils.fingerprint(adminPublicKey!)
+        );
 
-    MessageStore.saveMessageEnvelope(messageEnvelope);
-    MessageStore.saveKeyEnvelope(keyEnvelope);
+    await this.meshNetwork.broadcastMessage(messageEnvelope);
+    await this.meshNetwork.broadcastKeyEnvelope(keyEnvelope);
 
-    this.meshNetwork.broadcastMessage(messageEnvelope);
-    this.meshNetwork.broadcastKeyEnvelope(keyEnvelope);
+    if (attachment && attachmentId) {
+      await this.sendAttachment(
+        attachment,
+        attachmentId,
+        messageEnvelope.msg_id,
+        sessionKey,
+        keyEnvelope.to
+      );
+    }
 
     return { messageEnvelope, keyEnvelope };
   }
 
+  private async sendAttachment(
+    attachment: AttachmentFile,
+    attachmentId: string,
+    parentMsgId: string,
+    sessionKey: Uint8Array,
+    to: string
+  ): Promise<void> {
+    const manifest: AttachmentManifest = {
+      name: attachment.name,
+      mime: attachment.mime,
+      size: attachment.data.length,
+      hash: await CryptoUtils.hashBytes(attachment.data),
+    };
+    const chunkBytes = E2EService.ATTACHMENT_CHUNK_BYTES;
+    const total = Math.max(1, Math.ceil(attachment.data.length / chunkBytes));
+
+    for (let index = 0; index < total; index++) {
+      const bytes = attachment.data.subarray(index * chunkBytes, (index + 1) * chunkBytes);
+      const chunk = await MessageFactory.createAttachmentChunk(
+        {
+          attachment_id: attachmentId,
+          parent_msg_id: parentMsgId,
+          index,
+          total,
+          ...(index === 0
+            ? { manifest: await CryptoUtils.encryptMessage(JSON.stringify(manifest), sessionKey) }
+            : {}),
+        },
+        await CryptoUtils.encryptBytes(bytes, sessionKey),
+        to
+      );
+      await this.meshNetwork.broadcastMessage(chunk);
+    }
+  }
+
   private async tryDecryptMessage(
     messageEnvelope?: MessageEnvelope,
     keyEnvelope?: KeyEnvelope
@@ -73,37 +197,53 @@ export class E2EService {
       return;
     }
 
-    const storedMessage = MessageStore.getMessageEnvelopeById(msgId);
-    const storedKey = MessageStore.getKeyEnvelopeById(msgId);
+    const storedMessage = await MessageStore.getMessageEnvelopeById(msgId);
+    const storedKey = await MessageStore.getKeyEnvelopeById(msgId);
 
     if (!storedMessage || !storedKey) {
       return;
     }
 
-    if (storedMessage.type !== 'e2e' || storedKey.to !== 'admin') {
+    // Messages arriving while admin mode is locked are decrypted on the next unlock
+    if (storedMessage.type !== 'e2e' || AdminVault.isLocked()) {
       return;
     }
 
     try {
       await CryptoUtils.initialize();
-      const adminPrivateKey = AdminKeyStore.getAdminPrivateKey();
-      if (!adminPrivateKey) {
+      if (!AdminKeyStore.getAdminKeyPair()) {
         throw new Error('Admin private key not available');
       }
 
-      const sessionKey = await CryptoUtils.unwrapSessionKey(
-        storedKey.wrapped_key,
-        adminPrivateKey
-      );
+      const sessionKey = await this.unwrapWithKeyring(storedKey);
+      if (!sessionKey) {
+        // Sent to a group or key this admin does not hold
+        return;
+      }
 
       const decryptedContent = await CryptoUtils.decryptMessage(
         storedMessage.payload,
         sessionKey
       );
 
+      // A malformed report is still shown, as plain text, rather than lost
+      let report: IncidentReport | undefined;
+      try {
+        report = IncidentReports.decode(decryptedContent) ?? undefined;
+      } catch (error) {
+        console.warn(`Message ${msgId} carries an invalid incident report:`, error);
+      }
+
+      // Gateway submissions and older nodes send no reply key
+      const replyKey = storedMessage.reply_key
+        ? await CryptoUtils.decryptMessage(storedMessage.reply_key, sessionKey)
+        : undefined;
+
       const decryptedMessage: DecryptedMessage = {
         msg_id: msgId,
-        content: decryptedContent,
+        content: report ? report.description : decryptedContent,
+        report,
+        replyKey,
         timestamp: storedMessage.timestamp,
         from: storedMessage.from,
         meta: storedMessage.meta,
@@ -111,40 +251,252 @@ export class E2EService {
         keyPath: [{ nodeId: storedKey.from, timestamp: new Date().toISOString() }],
       };
 
-      MessageStore.saveDecryptedMessage(decryptedMessage);
+      const firstDecryption = !(await MessageStore.getDecryptedMessageById(msgId));
+      await MessageStore.saveDecryptedMessage(
+        await AdminVault.sealDecryptedMessage(decryptedMessage)
+      );
+
+      // Let the reporter know the report reached an admin. Checked and recorded with no await
+      // in between, so a key and a message decrypting the same report at once send one receipt
+      if (firstDecryption && !E2EService.decryptedReceipts.has(msgId)) {
+        E2EService.decryptedReceipts.add(msgId);
+        ReceiptService.sendReceipt(msgId, 'decrypted').catch(console.error);
+      }
     } catch (error) {
       console.error('Failed to decrypt message:', error);
+      return;
+    }
+
+    await this.tryAssembleAttachment(msgId);
+  }
+
+  /**
+   * Attach the file sent with a decrypted message once all of its chunks have arrived.
+   */
+  private async tryAssembleAttachment(parentMsgId: string): Promise<void> {
+    if (AdminVault.isLocked()) {
+      return;
+    }
+
+    const decrypted = await this.getDecryptedMessageById(parentMsgId);
+    const attachmentId = decrypted?.meta?.imageRef;
+    if (!decrypted || !attachmentId || decrypted.attachment) {
+      return;
+    }
+
+    const keyEnvelope = await MessageStore.getKeyEnvelopeById(parentMsgId);
+    const parent = await MessageStore.getMessageEnvelopeById(parentMsgId);
+    if (!keyEnvelope || !parent) {
+      return;
+    }
+
+    const sessionKey = await this.unwrapWithKeyring(keyEnvelope);
+    if (!sessionKey) {
+      return;
     }
+
+    try {
+      const candidates = await this.getAttachmentChunks(attachmentId, parent);
+      const assembled = await this.assembleAttachment(candidates, sessionKey);
+      if (!assembled) {
+        return;
+      }
+      const { manifest, data } = assembled;
+      const dataUrl = E2EService.toDataUrl(data, manifest.mime);
+      const attachment: DecryptedAttachment = {
+        name: manifest.name,
+        mime: manifest.mime,
+        size: manifest.size,
+      };
+
+      await MessageStore.saveDecryptedMessage(
+        await AdminVault.sealDecryptedMessage({
+          ...decrypted,
+          ...(manifest.mime.startsWith('image/')
+            ? { image: dataUrl, attachment }
+            : { attachment: { ...attachment, data: dataUrl } }),
+        })
+      );
+    } catch (error) {
+      console.error(`Failed to reassemble attachment for ${parentMsgId}:`, error);
+    }
+  }
+
+  /**
+   * Every stored chunk claiming to belong to the attachment, by index. Unsigned envelopes
+   * can claim any sender, so there may be several candidates for an index; chunks of a
+   * signed message must carry the parent's sender key.
+   */
+  private async getAttachmentChunks(
+    attachmentId: string,
+    parent: MessageEnvelope
+  ): Promise<Map<number, MessageEnvelope[]>> {
+    const envelopes = await MessageStore.getMessageEnvelopes({
+      type: 'attachment',
+      attachment: attachmentId,
+      from: parent.from,
+      order: 'asc',
+    });
+    const byIndex = new Map<number, MessageEnvelope[]>();
+
+    for (const envelope of envelopes) {
+      const chunk = envelope.chunk;
+      if (
+        chunk?.attachment_id !== attachmentId ||
+        chunk.parent_msg_id !== parent.msg_id ||
+        envelope.from !== parent.from ||
+        (parent.sender_key && envelope.sender_key !== parent.sender_key)
+      ) {
+        continue;
+      }
+      byIndex.set(chunk.index, [...(byIndex.get(chunk.index) ?? []), envelope]);
+    }
+    return byIndex;
   }
 
-  getDecryptedMessages(): DecryptedMessage[] {
-    if (!AdminKeyStore.isAdminMode()) {
+  // The first candidate that opens with the session key; a forged one cannot
+  private static async openFirst<T>(
+    candidates: string[],
+    open: (encrypted: string) => Promise<T>
+  ): Promise<T | null> {
+    for (const encrypted of candidates) {
+      try {
+        return await open(encrypted);
+      } catch {
+        // Not sealed with this session key, try the next candidate
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Reassemble the attachment, or null while chunks are still missing. The chunk count
+   * comes from the encrypted manifest, never from the plaintext chunk headers.
+   */
+  private async assembleAttachment(
+    candidates: Map<number, MessageEnvelope[]>,
+    sessionKey: Uint8Array
+  ): Promise<{ manifest: AttachmentManifest; data: Uint8Array } | null> {
+    const manifests = (candidates.get(0) ?? [])
+      .map((envelope) => envelope.chunk?.manifest)
+      .filter((manifest): manifest is string => !!manifest);
+    const manifest = await E2EService.openFirst<AttachmentManifest>(manifests, async (encrypted) =>
+      JSON.parse(await CryptoUtils.decryptMessage(encrypted, sessionKey))
+    );
+    if (!manifest || !Number.isInteger(manifest.size) || manifest.size < 0) {
+      return null;
+    }
+
+    const total = Math.max(1, Math.ceil(manifest.size / E2EService.ATTACHMENT_CHUNK_BYTES));
+    const parts: Uint8Array[] = [];
+    for (let index = 0; index < total; index++) {
+      const payloads = (candidates.get(index) ?? []).map((envelope) => envelope.payload);
+      const part = await E2EService.openFirst(payloads, (encrypted) =>
+        CryptoUtils.decryptBytes(encrypted, sessionKey)
+      );
+      if (!part) {
+        return null;
+      }
+      parts.push(part);
+    }
+    const data = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      data.set(part, offset);
+      offset += part.length;
+    }
+
+    if (data.length !== manifest.size || (await CryptoUtils.hashBytes(data)) !== manifest.hash) {
+      throw new Error('Attachment failed its integrity check');
+    }
+    return { manifest, data };
+  }
+
+  private static toDataUrl(data: Uint8Array, mime: string): string {
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) {
+      binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    }
+    return `data:${mime};base64,${btoa(binary)}`;
+  }
+
+  /**
+   * Open the session key with the current admin key or a retired one. Envelopes without a
+   * key ID, from older senders and the gateway, are tried against every key in turn.
+   */
+  private async unwrapWithKeyring(keyEnvelope: KeyEnvelope): Promise<Uint8Array | null> {
+    for (const keyPair of AdminKeyStore.getKeyring()) {
+      const keyId = await CryptoUtils.fingerprint(keyPair.publicKey);
+      const wrappedKey = keyEnvelope.recipients
+        ? keyEnvelope.recipients.find((recipient) => recipient.key_id === keyId)?.wrapped_key
+        : !keyEnvelope.key_id || keyEnvelope.key_id === keyId
+          ? keyEnvelope.wrapped_key
+          : undefined;
+      if (!wrappedKey) {
+        continue;
+      }
+
+      try {
+        return await CryptoUtils.unwrapSessionKey(wrappedKey, keyPair.privateKey);
+      } catch {
+        // Wrapped for a different key
+      }
+    }
+    return null;
+  }
+
+  async getDecryptedMessages(
+    offset = 0,
+    limit = E2EService.PAGE_SIZE
+  ): Promise<DecryptedMessage[]> {
+    if (!AdminKeyStore.isAdminMode() || AdminVault.isLocked()) {
       return [];
     }
-    return MessageStore.getDecryptedMessages().sort(
-      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    const stored = await MessageStore.getDecryptedMessages({ offset, limit });
+    const opened = await Promise.all(
+      stored.map((message) => AdminVault.openDecryptedMessage(message))
     );
+    return opened.filter((message): message is DecryptedMessage => message !== null);
   }
 
-  getDecryptedMessageById(msgId: string): DecryptedMessage | undefined {
-    return this.getDecryptedMessages().find((msg) => msg.msg_id === msgId);
+  async getDecryptedMessageById(msgId: string): Promise<DecryptedMessage | undefined> {
+    if (!AdminKeyStore.isAdminMode() || AdminVault.isLocked()) {
+      return undefined;
+    }
+    const stored = await MessageStore.getDecryptedMessageById(msgId);
+    return (stored && (await AdminVault.openDecryptedMessage(stored))) || undefined;
+  }
+
+  // Catch up on encrypted messages that arrived while admin mode was locked
+  async decryptPendingMessages(): Promise<void> {
+    const envelopes = await this.getE2EMessageEnvelopes();
+    for (const envelope of envelopes) {
+      if (!(await MessageStore.getDecryptedMessageById(envelope.msg_id))) {
+        await this.tryDecryptMessage(envelope);
+      } else {
+        await this.tryAssembleAttachment(envelope.msg_id);
+      }
+    }
   }
 
-  getE2EMessageEnvelopes(): MessageEnvelope[] {
-    return MessageStore.getMessageEnvelopes().filter((msg) => msg.type === 'e2e');
+  async getE2EMessageEnvelopes(
+    offset = 0,
+    limit = E2EService.PAGE_SIZE
+  ): Promise<MessageEnvelope[]> {
+    return MessageStore.getMessageEnvelopes({ type: 'e2e', offset, limit });
   }
 
   canDecryptMessages(): boolean {
     return AdminKeyStore.isAdminMode() && AdminKeyStore.hasAdminKeys();
   }
 
-  getMessagePathForId(msgId: string): string[] {
-    const message = MessageStore.getMessageEnvelopeById(msgId);
+  async getMessagePathForId(msgId: string): Promise<string[]> {
+    const message = await MessageStore.getMessageEnvelopeById(msgId);
     return message?.hops.map((hop) => hop.nodeId) || [];
   }
 
-  getKeyPathForId(msgId: string): string[] {
-    const keyEnvelope = MessageStore.getKeyEnvelopeById(msgId);
+  async getKeyPathForId(msgId: string): Promise<string[]> {
+    const keyEnvelope = await MessageStore.getKeyEnvelopeById(msgId);
     return keyEnvelope ? [keyEnvelope.from] : [];
   }
 }
@@ -0,0 +1,84 @@
+import { HopInfo, HopStatus } from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+import { canonicalJson } from '../utils/canonicalJson';
+import { NodeIdGenerator } from '../utils/nodeId';
+import { NodeIdentity } from './nodeIdentity';
+
+/**
+ * Each hop is signed by the node that added it and commits to the hash of the hop before it,
+ * so a relay cannot rewrite, drop or reorder earlier hops or quietly reset the TTL.
+ */
+export class HopChain {
+  static async createHop(msgId: string, ttl: number, previousHop?: HopInfo): Promise<HopInfo> {
+    const keyPair = await NodeIdentity.getSigningKeyPair();
+    const hop: HopInfo = {
+      nodeId: NodeIdGenerator.getOrCreateNodeId(),
+      timestamp: new Date().toISOString(),
+      ttl,
+      prev_hash: previousHop ? await this.hashHop(previousHop) : undefined,
+      signer_key: keyPair.publicKey,
+    };
+
+    const signature = await CryptoUtils.sign(this.signedHopFields(msgId, hop), keyPair.privateKey);
+    return { ...hop, signature };
+  }
+
+  /**
+   * Status of every hop in order. The origin hop must be signed by `senderKey` when one is given.
+   */
+  static async verify(msgId: string, hops: HopInfo[], senderKey?: string): Promise<HopStatus[]> {
+    const statuses: HopStatus[] = [];
+
+    for (let i = 0; i < hops.length; i++) {
+      const hop = hops[i];
+      const previousHop = i > 0 ? hops[i - 1] : undefined;
+
+      if (!hop.signature || !hop.signer_key) {
+        statuses.push('unsigned');
+        continue;
+      }
+
+      const expectedPrevHash = previousHop ? await this.hashHop(previousHop) : undefined;
+      const linked = hop.prev_hash === expectedPrevHash;
+      const ttlStepsDown =
+        previousHop?.ttl === undefined || hop.ttl === previousHop.ttl - 1;
+      const signedByOrigin = i > 0 || !senderKey || hop.signer_key === senderKey;
+      const validSignature = await CryptoUtils.verify(
+        this.signedHopFields(msgId, hop),
+        hop.signature,
+        hop.signer_key
+      );
+
+      statuses.push(linked && ttlStepsDown && signedByOrigin && validSignature ? 'valid' : 'tampered');
+    }
+
+    return statuses;
+  }
+
+  /**
+   * The TTL the last signed hop committed to, which a relay cannot raise without breaking its signature.
+   */
+  static lastSignedTtl(hops: HopInfo[]): number | undefined {
+    for (let i = hops.length - 1; i >= 0; i--) {
+      if (hops[i].signature && hops[i].ttl !== undefined) {
+        return hops[i].ttl;
+      }
+    }
+    return undefined;
+  }
+
+  private static signedHopFields(msgId: string, hop: HopInfo): string {
+    return canonicalJson([
+      msgId,
+      hop.nodeId,
+      hop.timestamp,
+      hop.ttl ?? null,
+      hop.prev_hash ?? null,
+      hop.signer_key ?? null,
+    ]);
+  }
+
+  private static async hashHop(hop: HopInfo): Promise<string> {
+    return CryptoUtils.hash(canonicalJson(hop));
+  }
+}
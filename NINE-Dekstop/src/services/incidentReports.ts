@@ -0,0 +1,109 @@
+import {
+  IncidentReport,
+  IncidentNeed,
+  IncidentSeverity,
+  IncidentStatus,
+} from '../types/message';
+
+export type IncidentReportFields = Omit<IncidentReport, 'schema' | 'version'>;
+
+export class IncidentReports {
+  static readonly SCHEMA = 'nine-incident';
+  static readonly VERSION = 1;
+  static readonly NEEDS: IncidentNeed[] = ['water', 'food', 'medical', 'shelter', 'rescue', 'evacuation'];
+  static readonly SEVERITIES: IncidentSeverity[] = ['low', 'moderate', 'high', 'critical'];
+  static readonly STATUSES: IncidentStatus[] = ['open', 'in_progress', 'resolved'];
+  private static readonly MAX_DESCRIPTION = 5000;
+  private static readonly MAX_PEOPLE = 100000;
+
+  static create(fields: IncidentReportFields): IncidentReport {
+    return this.validate({ schema: this.SCHEMA, version: this.VERSION, ...fields });
+  }
+
+  /**
+   * Check an untrusted value against the current schema version. Throws with every problem found.
+   */
+  static validate(value: unknown): IncidentReport {
+    if (!value || typeof value !== 'object') {
+      throw new Error('Incident report must be an object');
+    }
+    const report = value as Record<string, unknown>;
+    if (report.schema !== this.SCHEMA) {
+      throw new Error('Not an incident report');
+    }
+    if (report.version !== this.VERSION) {
+      throw new Error(`Unsupported incident report version ${String(report.version)}`);
+    }
+
+    const problems: string[] = [];
+    const isCount = (count: unknown) =>
+      Number.isInteger(count) && (count as number) >= 0 && (count as number) <= this.MAX_PEOPLE;
+
+    if (typeof report.description !== 'string' || !report.description.trim()) {
+      problems.push('description is required');
+    } else if (report.description.length > this.MAX_DESCRIPTION) {
+      problems.push(`description is longer than ${this.MAX_DESCRIPTION} characters`);
+    }
+    if (!isCount(report.people)) {
+      problems.push('people must be a whole number from 0');
+    }
+    if (!isCount(report.injuries)) {
+      problems.push('injuries must be a whole number from 0');
+    } else if (isCount(report.people) && (report.injuries as number) > (report.people as number)) {
+      problems.push('injuries cannot exceed the number of people');
+    }
+    if (
+      !Array.isArray(report.needs) ||
+      !report.needs.every((need) => this.NEEDS.includes(need)) ||
+      new Set(report.needs).size !== report.needs.length
+    ) {
+      problems.push(`needs must be a list of ${this.NEEDS.join(', ')}`);
+    }
+    if (!this.SEVERITIES.includes(report.severity as IncidentSeverity)) {
+      problems.push(`severity must be one of ${this.SEVERITIES.join(', ')}`);
+    }
+    if (!this.STATUSES.includes(report.status as IncidentStatus)) {
+      problems.push(`status must be one of ${this.STATUSES.join(', ')}`);
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid incident report: ${problems.join('; ')}`);
+    }
+
+    return {
+      schema: this.SCHEMA,
+      version: this.VERSION,
+      description: (report.description as string).trim(),
+      people: report.people as number,
+      injuries: report.injuries as number,
+      needs: report.needs as IncidentNeed[],
+      severity: report.severity as IncidentSeverity,
+      status: report.status as IncidentStatus,
+    };
+  }
+
+  static encode(report: IncidentReport): string {
+    return JSON.stringify(this.validate(report));
+  }
+
+  /**
+   * Read a decrypted message body. Plain-text messages from older senders give null;
+   * a body that claims to be a report but does not validate throws.
+   */
+  static decode(content: string): IncidentReport | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    if (!parsed || typeof parsed !== 'object' || (parsed as { schema?: unknown }).schema !== this.SCHEMA) {
+      return null;
+    }
+    return this.validate(parsed);
+  }
+
+  static label(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1).replace('_', ' ');
+  }
+}
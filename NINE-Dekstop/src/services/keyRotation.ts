@@ -0,0 +1,69 @@
+import { KeyRotationNotice, MessageEnvelope } from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+import { AdminKeyStore } from './adminKeyStore';
+import { AdminVault } from './adminVault';
+import { MessageFactory } from './messageFactory';
+import { MeshNetwork } from './meshNetwork';
+import { RecipientGroupStore } from './recipientGroupStore';
+
+export class KeyRotation {
+  /**
+   * Replace the admin encryption key. The old keypair is retired rather than deleted, and a
+   * key rotation notice signed with the admin signing key tells other nodes to switch.
+   */
+  static async rotateAdminKey(): Promise<MessageEnvelope> {
+    const current = AdminKeyStore.getAdminKeyPair();
+    const adminSigningKey = AdminKeyStore.getAdminSigningPrivateKey();
+    if (!AdminKeyStore.isAdminMode() || !current || !adminSigningKey) {
+      throw new Error('Admin keys are only rotated from unlocked admin mode');
+    }
+
+    const previousKeyId = await CryptoUtils.fingerprint(current.publicKey);
+    const next = await CryptoUtils.generateAdminKeyPair();
+
+    AdminKeyStore.retireAdminKeyPair(current, previousKeyId);
+    AdminKeyStore.saveAdminKeyPair(next);
+    await AdminVault.sealAdminKeys();
+
+    const notice: KeyRotationNotice = {
+      key_id: await CryptoUtils.fingerprint(next.publicKey),
+      public_key: next.publicKey,
+      previous_key_id: previousKeyId,
+      rotated_at: new Date().toISOString(),
+    };
+    const envelope = await MessageFactory.createKeyRotationMessage(notice, adminSigningKey);
+    await MeshNetwork.getInstance().broadcastMessage(envelope);
+    return envelope;
+  }
+
+  /**
+   * Switch to the announced key if the notice is signed by the trusted admin and replaces
+   * the key this node currently encrypts to. Recipient groups holding the old key follow.
+   */
+  static async applyRotation(envelope: MessageEnvelope): Promise<boolean> {
+    if (envelope.type !== 'key_rotation' || AdminKeyStore.isAdminMode()) {
+      return false;
+    }
+    if (!(await MessageFactory.verifyAdminSignature(envelope))) {
+      console.warn(`Ignoring key rotation ${envelope.msg_id} without a trusted admin signature`);
+      return false;
+    }
+
+    let notice: KeyRotationNotice;
+    try {
+      notice = JSON.parse(envelope.payload);
+    } catch {
+      return false;
+    }
+    if ((await CryptoUtils.fingerprint(notice.public_key)) !== notice.key_id) {
+      return false;
+    }
+
+    const currentKey = AdminKeyStore.getAdminPublicKey();
+    if (currentKey && (await CryptoUtils.fingerprint(currentKey)) === notice.previous_key_id) {
+      AdminKeyStore.replaceAdminPublicKey(notice.public_key);
+    }
+    await RecipientGroupStore.replaceMemberKey(notice.previous_key_id, notice.public_key);
+    return true;
+  }
+}
@@ -1,12 +1,40 @@
 import { MessageEnvelope, KeyEnvelope } from '../types/message';
 import { MessageStore } from './messageStore';
 import { MessageFactory } from './messageFactory';
+import { HopChain } from './hopChain';
 import { NodeIdGenerator } from '../utils/nodeId';
+import { CryptoUtils } from '../utils/crypto';
+import { NodeIdentity } from './nodeIdentity';
+import { NearbyServer } from '../types/electron';
+import { ChunkedTransfer, TransferProgressHandler } from './chunkedTransfer';
 
 export type MessageHandler = (message: MessageEnvelope) => void;
 export type KeyHandler = (key: KeyEnvelope) => void;
 export type PeerDiscoveredHandler = (peerId: string) => void;
 export type PeerLostHandler = (peerId: string) => void;
+export type RelayedHandler = (msgId: string) => void;
+export type RejectedHandler = (msgId: string, reason: string) => void;
+
+// Frames the mesh server sends to nodes
+interface ServerFrame {
+  type: string;
+  peers?: string[];
+  peerId?: string;
+  envelope?: MessageEnvelope | KeyEnvelope;
+  envelopeType?: 'key';
+  msg_id?: string; // mesh_ack: the server took the message envelope with this msg_id
+  code?: string; // error: why the server rejected a frame, e.g. rate_limited or unauthorized
+  message?: string;
+}
+
+// Errors after which the server closes the connection instead of dropping one frame
+const REFUSAL_CODES = ['unauthorized', 'duplicate_peer'];
+
+// Why this node could not join: refused by the server, or the server's certificate changed
+export interface Refusal {
+  reason: 'unauthorized' | 'duplicate_peer' | 'certificate';
+  message: string;
+}
 
 export class MeshNetwork {
   private peers: Set<string> = new Set();
@@ -14,17 +42,30 @@ export class MeshNetwork {
   private keyHandlers: KeyHandler[] = [];
   private peerDiscoveredHandlers: PeerDiscoveredHandler[] = [];
   private peerLostHandlers: PeerLostHandler[] = [];
+  private relayedHandlers: RelayedHandler[] = [];
+  private rejectedHandlers: RejectedHandler[] = [];
   private nodeId: string;
   private serverUrl: string;
+  private primaryUrl: string;
+  private nearbyServers: NearbyServer[] = [];
+  private watchingNearbyServers = false;
   private ws: WebSocket | null = null;
+  private refusal: Refusal | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
   private reconnectDelay = 3000;
+  private transfers = new ChunkedTransfer();
+  private initialized: Promise<void> | null = null;
+  private static readonly SYNC_WINDOW_MS = 24 * 60 * 60 * 1000;
+  // Newest held msg_ids listed per kind, keeping sync_request under the relay's frame cap
+  private static readonly SYNC_MAX_IDS = 500;
   private static instance: MeshNetwork;
 
   private constructor(serverUrl: string = 'ws://localhost:3000/mesh') {
     this.nodeId = NodeIdGenerator.getOrCreateNodeId();
     this.serverUrl = serverUrl;
+    this.primaryUrl = serverUrl;
   }
 
   static getInstance(serverUrl?: string): MeshNetwork {
@@ -34,14 +75,28 @@ export class MeshNetwork {
     return this.instance;
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * Connect to the mesh. Every service calls this; only the first call opens a socket, so the
+   * node holds one connection under its node ID and the server does not refuse the others as
+   * duplicates.
+   */
+  initialize(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = this.connect();
+    }
+    return this.initialized;
+  }
+
+  private async connect(): Promise<void> {
     // Update server URL from Electron if available
     if (typeof window !== 'undefined' && window.electronAPI) {
       try {
         const electronUrl = await window.electronAPI.getServerUrl();
         if (electronUrl) {
           this.serverUrl = electronUrl;
+          this.primaryUrl = electronUrl;
         }
+        await this.watchNearbyServers();
       } catch (error) {
         // Not in Electron or API not available, use default
         console.log('Running in Electron, using embedded server');
@@ -50,54 +105,51 @@ export class MeshNetwork {
     await this.connectToServer();
   }
 
+  private async watchNearbyServers(): Promise<void> {
+    if (this.watchingNearbyServers || !window.electronAPI) {
+      return;
+    }
+    this.watchingNearbyServers = true;
+
+    this.nearbyServers = await window.electronAPI.getNearbyServers();
+    window.electronAPI.onNearbyServersUpdate((servers) => {
+      this.nearbyServers = servers;
+    });
+  }
+
+  // Rotate through the embedded server and any servers discovered on the LAN while reconnecting
+  private nextServerUrl(): string {
+    const candidates = [this.primaryUrl, ...this.nearbyServers.map((server) => server.url)];
+    return candidates[this.reconnectAttempts % candidates.length];
+  }
+
   private async connectToServer(): Promise<void> {
     try {
+      await this.checkServerCertificate(this.serverUrl);
       const ws = new WebSocket(this.serverUrl);
 
       ws.onopen = () => {
         console.log('Connected to mesh server');
         this.reconnectAttempts = 0;
         
-        // Register this node with the server
-        ws.send(
-          JSON.stringify({
-            type: 'register',
-            peerId: this.nodeId,
-          })
-        );
+        // Register this node with the server before asking for what it missed
+        this.register(ws)
+          .then(() => this.requestSync(ws))
+          .catch(console.error);
       };
 
       ws.onmessage = (event) => {
         try {
           const message = JSON.parse(event.data.toString());
 
-          if (message.type === 'peer_list') {
-            // Handle peer list from server
-            message.peers?.forEach((peerId: string) => {
-              if (!this.peers.has(peerId)) {
-                this.peers.add(peerId);
-                this.peerDiscoveredHandlers.forEach((handler) => handler(peerId));
-              }
-            });
-          } else if (message.type === 'peer_connected') {
-            // New peer connected
-            if (!this.peers.has(message.peerId)) {
-              this.peers.add(message.peerId);
-              this.peerDiscoveredHandlers.forEach((handler) => handler(message.peerId));
-            }
-          } else if (message.type === 'peer_disconnected') {
-            // Peer disconnected
-            if (this.peers.has(message.peerId)) {
-              this.peers.delete(message.peerId);
-              this.peerLostHandlers.forEach((handler) => handler(message.peerId));
-            }
-          } else if (message.type === 'mesh_message') {
-            // Handle mesh message from server
-            if (message.envelopeType === 'key') {
-              this.handleKeyEnvelope(message.envelope);
-            } else {
-              this.handleMessageEnvelope(message.envelope);
-            }
+          if (ChunkedTransfer.isTransferFrame(message)) {
+            // Large frames arrive in chunks and are handled once reassembled
+            this.transfers
+              .receive(ws, message)
+              .then((frame) => frame && this.handleServerMessage(frame as ServerFrame))
+              .catch(console.error);
+          } else {
+            this.handleServerMessage(message);
           }
         } catch (error) {
           console.error('Failed to parse server message:', error);
@@ -110,60 +162,213 @@ export class MeshNetwork {
 
       ws.onclose = () => {
         console.log('Disconnected from mesh server');
+        this.transfers.reset();
         this.peers.clear();
         this.peerLostHandlers.forEach((handler) => {
           Array.from(this.peers).forEach((peerId) => handler(peerId));
         });
         this.peers.clear();
 
-        // Attempt reconnection
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.reconnectAttempts++;
-          setTimeout(() => {
-            this.connectToServer();
-          }, this.reconnectDelay);
-        } else {
-          console.error('Max reconnection attempts reached');
-        }
+        this.scheduleReconnect();
       };
 
       this.ws = ws;
     } catch (error) {
       console.error('Failed to connect to mesh server:', error);
-      
-      // Retry connection
-      if (this.reconnectAttempts < this.maxReconnectAttempts) {
-        this.reconnectAttempts++;
-        setTimeout(() => {
-          this.connectToServer();
-        }, this.reconnectDelay);
+      this.scheduleReconnect();
+    }
+  }
+
+  // Try the next server after a delay, until the attempts run out
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.error('Max reconnection attempts reached');
+      return;
+    }
+    this.reconnectAttempts++;
+    this.serverUrl = this.nextServerUrl();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectToServer();
+    }, this.reconnectDelay);
+  }
+
+  // Start over once the user has dealt with what stopped the connection, e.g. a changed certificate
+  reconnect(): void {
+    if (this.isConnected()) {
+      return;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    this.refusal = null;
+    this.serverUrl = this.primaryUrl;
+    this.connectToServer();
+  }
+
+  /**
+   * A wss:// server has to present the certificate pinned the first time this node connected
+   * to it. Only the Electron main process can see certificates, so it does the check.
+   */
+  private async checkServerCertificate(url: string): Promise<void> {
+    if (!url.startsWith('wss:') || typeof window === 'undefined' || !window.electronAPI) {
+      return;
+    }
+    const check = await window.electronAPI.checkServerCertificate(url);
+    if (check.status === 'mismatch') {
+      this.refusal = {
+        reason: 'certificate',
+        message: `The certificate of ${new URL(url).host} changed from ${check.pinned} to ${check.fingerprint}`,
+      };
+      throw new Error(this.refusal.message);
+    }
+  }
+
+  /**
+   * Join the mesh. The join secret comes from the embedded server when it has one; the
+   * signature with the node key is for servers that only admit allowed node keys.
+   */
+  private async register(ws: WebSocket): Promise<void> {
+    const keyPair = await NodeIdentity.getSigningKeyPair();
+    const timestamp = new Date().toISOString();
+    const secret =
+      typeof window !== 'undefined' && window.electronAPI
+        ? await window.electronAPI.getMeshSecret()
+        : null;
+
+    ws.send(
+      JSON.stringify({
+        type: 'register',
+        peerId: this.nodeId,
+        publicKey: keyPair.publicKey,
+        timestamp,
+        signature: await CryptoUtils.sign(
+          `nine-register:${this.nodeId}:${timestamp}`,
+          keyPair.privateKey
+        ),
+        ...(secret ? { secret } : {}),
+      })
+    );
+  }
+
+  private handleServerMessage(message: ServerFrame): void {
+    if (message.type === 'peer_list') {
+      // The server sends the peer list once it has accepted the registration
+      this.refusal = null;
+      // Handle peer list from server
+      message.peers?.forEach((peerId: string) => {
+        if (!this.peers.has(peerId)) {
+          this.peers.add(peerId);
+          this.peerDiscoveredHandlers.forEach((handler) => handler(peerId));
+        }
+      });
+    } else if (message.type === 'peer_connected') {
+      // New peer connected
+      const peerId = message.peerId;
+      if (peerId && !this.peers.has(peerId)) {
+        this.peers.add(peerId);
+        this.peerDiscoveredHandlers.forEach((handler) => handler(peerId));
+      }
+    } else if (message.type === 'peer_disconnected') {
+      // Peer disconnected
+      const peerId = message.peerId;
+      if (peerId && this.peers.has(peerId)) {
+        this.peers.delete(peerId);
+        this.peerLostHandlers.forEach((handler) => handler(peerId));
+      }
+    } else if (message.type === 'mesh_message' && message.envelope) {
+      // Handle mesh message from server
+      if (message.envelopeType === 'key') {
+        this.handleKeyEnvelope(message.envelope as KeyEnvelope).catch(console.error);
+      } else {
+        this.handleMessageEnvelope(message.envelope as MessageEnvelope).catch(console.error);
+      }
+    } else if (message.type === 'mesh_ack' && message.msg_id) {
+      const msgId = message.msg_id;
+      this.relayedHandlers.forEach((handler) => handler(msgId));
+    } else if (message.type === 'error') {
+      console.warn(`Mesh server rejected a frame (${message.code}): ${message.message}`);
+      const rejectedId = message.msg_id;
+      if (rejectedId) {
+        this.rejectedHandlers.forEach((handler) => handler(rejectedId, message.message ?? message.code ?? 'rejected'));
+      }
+      if (message.code && REFUSAL_CODES.includes(message.code)) {
+        this.refusal = {
+          reason: message.code as Refusal['reason'],
+          message: message.message ?? message.code,
+        };
       }
     }
   }
 
+  private async handleMessageEnvelope(received: MessageEnvelope): Promise<void> {
+    if (MessageStore.isDuplicate(received.msg_id)) {
+      return;
+    }
 
-  private handleMessageEnvelope(message: MessageEnvelope): void {
-    if (MessageStore.isDuplicate(message.msg_id)) {
+    // A relay cannot raise the TTL above what the last signed hop committed to
+    const signedTtl = HopChain.lastSignedTtl(received.hops);
+    const message =
+      signedTtl !== undefined && received.ttl > signedTtl
+        ? { ...received, ttl: signedTtl }
+        : received;
+
+    // Forged copies are dropped without marking the msg_id, so the genuine envelope can still arrive
+    if ((await MessageFactory.verifyEnvelope(message)) === 'invalid') {
+      console.warn(`Dropping message ${message.msg_id} with an invalid signature`);
       return;
     }
 
     MessageStore.markAsProcessed(message.msg_id);
-    MessageStore.saveMessageEnvelope(message);
+    await MessageStore.saveMessageEnvelope(message);
 
     this.messageHandlers.forEach((handler) => handler(message));
 
     if (message.ttl > 0) {
-      this.forwardMessageEnvelope(message);
+      await this.forwardMessageEnvelope(message);
+    }
+  }
+
+  // Tell the server which envelopes we already hold so it can replay the ones we missed while offline
+  private async requestSync(ws: WebSocket): Promise<void> {
+    const since = new Date(Date.now() - MeshNetwork.SYNC_WINDOW_MS).toISOString();
+    const [messages, keys] = await Promise.all([
+      MessageStore.getMessageEnvelopes({ since, limit: MeshNetwork.SYNC_MAX_IDS }),
+      MessageStore.getKeyEnvelopes({ since, limit: MeshNetwork.SYNC_MAX_IDS }),
+    ]);
+
+    if (ws.readyState === WebSocket.OPEN) {
+      await this.transfers.send(
+        ws,
+        JSON.stringify({
+          type: 'sync_request',
+          since,
+          messageIds: messages.map((message) => message.msg_id),
+          keyIds: keys.map((key) => key.msg_id),
+        })
+      );
     }
   }
 
-  private handleKeyEnvelope(key: KeyEnvelope): void {
-    if (MessageStore.isDuplicate(key.msg_id)) {
+  // Key envelopes share their msg_id with the message they unlock, so they are deduplicated separately
+  private static keyDedupeId(msgId: string): string {
+    return `key:${msgId}`;
+  }
+
+  private async handleKeyEnvelope(key: KeyEnvelope): Promise<void> {
+    if (MessageStore.isDuplicate(MeshNetwork.keyDedupeId(key.msg_id))) {
       return;
     }
 
-    MessageStore.markAsProcessed(key.msg_id);
-    MessageStore.saveKeyEnvelope(key);
+    if ((await MessageFactory.verifyKeyEnvelope(key)) === 'invalid') {
+      console.warn(`Dropping key envelope ${key.msg_id} with an invalid signature`);
+      return;
+    }
+
+    MessageStore.markAsProcessed(MeshNetwork.keyDedupeId(key.msg_id));
+    await MessageStore.saveKeyEnvelope(key);
 
     this.keyHandlers.forEach((handler) => handler(key));
 
@@ -171,26 +376,28 @@ export class MeshNetwork {
     // Only the message envelopes are forwarded through the mesh
   }
 
-  private forwardMessageEnvelope(message: MessageEnvelope): void {
-    const forwarded = MessageFactory.addHop(message);
+  private async forwardMessageEnvelope(message: MessageEnvelope): Promise<void> {
+    const forwarded = await MessageFactory.addHop(message);
     this.sendToServer('mesh_message', { envelope: forwarded });
   }
 
-  broadcastMessage(message: MessageEnvelope): void {
-    MessageStore.saveMessageEnvelope(message);
+  async broadcastMessage(message: MessageEnvelope): Promise<void> {
+    MessageStore.markAsProcessed(message.msg_id);
+    await MessageStore.saveMessageEnvelope(message);
     this.messageHandlers.forEach((handler) => handler(message));
     this.sendToServer('mesh_message', { envelope: message });
   }
 
-  broadcastKeyEnvelope(key: KeyEnvelope): void {
-    MessageStore.saveKeyEnvelope(key);
+  async broadcastKeyEnvelope(key: KeyEnvelope): Promise<void> {
+    MessageStore.markAsProcessed(MeshNetwork.keyDedupeId(key.msg_id));
+    await MessageStore.saveKeyEnvelope(key);
     this.keyHandlers.forEach((handler) => handler(key));
     this.sendToServer('mesh_message', { envelope: key, envelopeType: 'key' });
   }
 
   private sendToServer(type: string, payload: any): void {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({ type, ...payload }));
+      this.transfers.send(this.ws, JSON.stringify({ type, ...payload })).catch(console.error);
     } else {
       console.warn('Cannot send message: WebSocket not connected');
     }
@@ -212,6 +419,21 @@ export class MeshNetwork {
     this.peerLostHandlers.push(handler);
   }
 
+  // Called when the mesh server confirms it took a message envelope for relaying
+  onRelayed(handler: RelayedHandler): void {
+    this.relayedHandlers.push(handler);
+  }
+
+  // Called when the mesh server refuses an envelope, e.g. as too large; key envelopes share
+  // the msg_id of their message
+  onRejected(handler: RejectedHandler): void {
+    this.rejectedHandlers.push(handler);
+  }
+
+  onTransferProgress(handler: TransferProgressHandler): void {
+    this.transfers.onProgress(handler);
+  }
+
   getPeers(): string[] {
     return Array.from(this.peers.keys());
   }
@@ -220,6 +442,14 @@ export class MeshNetwork {
     return this.nodeId;
   }
 
+  getServerUrl(): string {
+    return this.serverUrl;
+  }
+
+  getNearbyServers(): NearbyServer[] {
+    return this.nearbyServers;
+  }
+
   disconnect(): void {
     if (this.ws) {
       this.ws.close();
@@ -228,6 +458,11 @@ export class MeshNetwork {
     this.peers.clear();
   }
 
+  // Why the server last refused to let this node join, until a registration succeeds
+  getRefusal(): Refusal | null {
+    return this.refusal;
+  }
+
   isConnected(): boolean {
     return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
   }
@@ -1,84 +1,324 @@
 import { v4 as uuidv4 } from 'uuid';
-import { MessageEnvelope, KeyEnvelope, MessageMeta } from '../types/message';
-import { NodeIdGenerator } from '../utils/nodeId';
+import {
+  MessageEnvelope,
+  KeyEnvelope,
+  MessageMeta,
+  SignatureStatus,
+  AlertPriority,
+  WrappedKey,
+  KeyRotationNotice,
+  AttachmentChunk,
+  ReceiptStatus,
+} from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+import { canonicalJson } from '../utils/canonicalJson';
+import { NodeIdentity } from './nodeIdentity';
+import { HopChain } from './hopChain';
+import { AdminKeyStore } from './adminKeyStore';
+
+export interface OfficialAlertOptions {
+  priority: AlertPriority;
+  adminSigningKey: string;
+}
 
 export class MessageFactory {
   private static readonly DEFAULT_TTL = 8;
 
-  static createBroadcastMessage(
+  static async createBroadcastMessage(
     content: string,
-    meta?: MessageMeta
-  ): MessageEnvelope {
-    const nodeId = NodeIdGenerator.getOrCreateNodeId();
+    meta?: MessageMeta,
+    alert?: OfficialAlertOptions
+  ): Promise<MessageEnvelope> {
+    const msgId = uuidv4();
 
-    return {
-      msg_id: uuidv4(),
+    const envelope = await this.signEnvelope({
+      msg_id: msgId,
       type: 'broadcast',
-      from: NodeIdGenerator.getPseudoId(),
+      from: await NodeIdentity.getPseudoId(),
       to: 'all',
       timestamp: new Date().toISOString(),
       ttl: this.DEFAULT_TTL,
-      hops: [
-        {
-          nodeId: nodeId,
-          timestamp: new Date().toISOString(),
-        },
-      ],
+      hops: [await HopChain.createHop(msgId, this.DEFAULT_TTL)],
       payload: content,
       meta: meta,
-    };
+      priority: alert?.priority,
+    });
+
+    return alert ? this.countersign(envelope, alert.adminSigningKey) : envelope;
   }
 
-  static createE2EMessageEnvelope(
+  static async createKeyRotationMessage(
+    notice: KeyRotationNotice,
+    adminSigningKey: string
+  ): Promise<MessageEnvelope> {
+    const msgId = uuidv4();
+
+    const envelope = await this.signEnvelope({
+      msg_id: msgId,
+      type: 'key_rotation',
+      from: await NodeIdentity.getPseudoId(),
+      to: 'all',
+      timestamp: new Date().toISOString(),
+      ttl: this.DEFAULT_TTL,
+      hops: [await HopChain.createHop(msgId, this.DEFAULT_TTL)],
+      payload: JSON.stringify(notice),
+    });
+    return this.countersign(envelope, adminSigningKey);
+  }
+
+  static async createE2EMessageEnvelope(
     encryptedPayload: string,
-    meta?: MessageMeta
-  ): MessageEnvelope {
-    const nodeId = NodeIdGenerator.getOrCreateNodeId();
+    meta?: MessageMeta,
+    encryptedReplyKey?: string
+  ): Promise<MessageEnvelope> {
+    const msgId = uuidv4();
 
-    return {
-      msg_id: uuidv4(),
+    return this.signEnvelope({
+      msg_id: msgId,
       type: 'e2e',
-      from: NodeIdGenerator.getPseudoId(),
+      from: await NodeIdentity.getPseudoId(),
       to: 'admin',
       timestamp: new Date().toISOString(),
       ttl: this.DEFAULT_TTL,
-      hops: [
-        {
-          nodeId: nodeId,
-          timestamp: new Date().toISOString(),
-        },
-      ],
+      hops: [await HopChain.createHop(msgId, this.DEFAULT_TTL)],
       payload: encryptedPayload,
       meta: meta,
-    };
+      reply_key: encryptedReplyKey,
+    });
+  }
+
+  // Countersigned so the reporter can tell the reply comes from the admin it reported to
+  static async createReplyMessage(
+    inReplyTo: string,
+    encryptedPayload: string,
+    adminSigningKey: string
+  ): Promise<MessageEnvelope> {
+    const msgId = uuidv4();
+
+    const envelope = await this.signEnvelope({
+      msg_id: msgId,
+      type: 'reply',
+      from: await NodeIdentity.getPseudoId(),
+      to: 'reporter',
+      timestamp: new Date().toISOString(),
+      ttl: this.DEFAULT_TTL,
+      hops: [await HopChain.createHop(msgId, this.DEFAULT_TTL)],
+      payload: encryptedPayload,
+      in_reply_to: inReplyTo,
+    });
+    return this.countersign(envelope, adminSigningKey);
   }
 
-  static createKeyEnvelope(
+  static async createReceiptMessage(
+    inReplyTo: string,
+    status: ReceiptStatus,
+    adminSigningKey: string
+  ): Promise<MessageEnvelope> {
+    const msgId = uuidv4();
+
+    const envelope = await this.signEnvelope({
+      msg_id: msgId,
+      type: 'receipt',
+      from: await NodeIdentity.getPseudoId(),
+      to: 'reporter',
+      timestamp: new Date().toISOString(),
+      ttl: this.DEFAULT_TTL,
+      hops: [await HopChain.createHop(msgId, this.DEFAULT_TTL)],
+      payload: status,
+      in_reply_to: inReplyTo,
+    });
+    return this.countersign(envelope, adminSigningKey);
+  }
+
+  static async createAttachmentChunk(
+    chunk: AttachmentChunk,
+    encryptedChunk: string,
+    to: string
+  ): Promise<MessageEnvelope> {
+    const msgId = uuidv4();
+
+    return this.signEnvelope({
+      msg_id: msgId,
+      type: 'attachment',
+      from: await NodeIdentity.getPseudoId(),
+      to,
+      timestamp: new Date().toISOString(),
+      ttl: this.DEFAULT_TTL,
+      hops: [await HopChain.createHop(msgId, this.DEFAULT_TTL)],
+      payload: encryptedChunk,
+      chunk,
+    });
+  }
+
+  static async createKeyEnvelope(
     msgId: string,
-    wrappedKey: string
-  ): KeyEnvelope {
-    return {
+    wrappedKey: string,
+    keyId?: string,
+    to = 'admin'
+  ): Promise<KeyEnvelope> {
+    return this.signKeyEnvelope({
       msg_id: msgId,
-      from: NodeIdGenerator.getPseudoId(),
-      to: 'admin',
+      from: await NodeIdentity.getPseudoId(),
+      to,
+      key_id: keyId,
       wrapped_key: wrappedKey,
       algorithm: 'x25519+aes-256-gcm',
-    };
+    });
   }
 
-  static addHop(envelope: MessageEnvelope): MessageEnvelope {
-    const nodeId = NodeIdGenerator.getOrCreateNodeId();
+  static async createGroupKeyEnvelope(
+    msgId: string,
+    groupName: string,
+    recipients: WrappedKey[]
+  ): Promise<KeyEnvelope> {
+    return this.signKeyEnvelope({
+      msg_id: msgId,
+      from: await NodeIdentity.getPseudoId(),
+      to: groupName,
+      recipients,
+      algorithm: 'x25519+aes-256-gcm',
+    });
+  }
+
+  static async addHop(envelope: MessageEnvelope): Promise<MessageEnvelope> {
+    const ttl = envelope.ttl - 1;
+    const previousHop = envelope.hops[envelope.hops.length - 1];
 
     return {
       ...envelope,
-      ttl: envelope.ttl - 1,
-      hops: [
-        ...envelope.hops,
-        {
-          nodeId: nodeId,
-          timestamp: new Date().toISOString(),
-        },
-      ],
+      ttl,
+      hops: [...envelope.hops, await HopChain.createHop(envelope.msg_id, ttl, previousHop)],
     };
   }
+
+  // Relays change ttl and hops, so only the fields fixed at creation are signed
+  private static signedMessageFields(envelope: MessageEnvelope): string {
+    return canonicalJson([
+      envelope.msg_id,
+      envelope.type,
+      envelope.from,
+      envelope.to,
+      envelope.timestamp,
+      envelope.payload,
+      envelope.meta ?? null,
+      envelope.sender_key ?? null,
+      // Optional fields are only appended when set, so older signatures still verify
+      ...(envelope.priority ? [envelope.priority] : []),
+      ...(envelope.chunk ? [{ chunk: envelope.chunk }] : []),
+      ...(envelope.reply_key ? [{ reply_key: envelope.reply_key }] : []),
+      ...(envelope.in_reply_to ? [{ in_reply_to: envelope.in_reply_to }] : []),
+    ]);
+  }
+
+  private static signedKeyFields(envelope: KeyEnvelope): string {
+    return canonicalJson([
+      envelope.msg_id,
+      envelope.from,
+      envelope.to,
+      envelope.wrapped_key ?? null,
+      envelope.algorithm,
+      envelope.sender_key ?? null,
+      // Optional fields are only appended when set, so older signatures still verify
+      ...(envelope.recipients ? [envelope.recipients] : []),
+      ...(envelope.key_id ? [{ key_id: envelope.key_id }] : []),
+    ]);
+  }
+
+  // The admin countersigns the same fields as the sender, priority included
+  private static async countersign(
+    envelope: MessageEnvelope,
+    adminSigningKey: string
+  ): Promise<MessageEnvelope> {
+    const adminSignature = await CryptoUtils.sign(
+      this.signedMessageFields(envelope),
+      adminSigningKey
+    );
+    return { ...envelope, admin_signature: adminSignature };
+  }
+
+  private static async signEnvelope(envelope: MessageEnvelope): Promise<MessageEnvelope> {
+    const keyPair = await NodeIdentity.getSigningKeyPair();
+    const unsigned = { ...envelope, sender_key: keyPair.publicKey };
+    const signature = await CryptoUtils.sign(
+      this.signedMessageFields(unsigned),
+      keyPair.privateKey
+    );
+    return { ...unsigned, signature };
+  }
+
+  private static async signKeyEnvelope(envelope: KeyEnvelope): Promise<KeyEnvelope> {
+    const keyPair = await NodeIdentity.getSigningKeyPair();
+    const unsigned = { ...envelope, sender_key: keyPair.publicKey };
+    const signature = await CryptoUtils.sign(
+      this.signedKeyFields(unsigned),
+      keyPair.privateKey
+    );
+    return { ...unsigned, signature };
+  }
+
+  static async verifyEnvelope(envelope: MessageEnvelope): Promise<SignatureStatus> {
+    return this.verifySignedFields(
+      this.signedMessageFields(envelope),
+      envelope.from,
+      envelope.sender_key,
+      envelope.signature
+    );
+  }
+
+  /**
+   * The priority of an official alert, or null unless it carries a valid signature
+   * from the admin signing key this node trusts.
+   */
+  static async verifyOfficialAlert(envelope: MessageEnvelope): Promise<AlertPriority | null> {
+    if (!envelope.priority) {
+      return null;
+    }
+    return (await this.verifyAdminSignature(envelope)) ? envelope.priority : null;
+  }
+
+  // Whether the envelope was countersigned by the admin signing key this node trusts
+  static async verifyAdminSignature(envelope: MessageEnvelope): Promise<boolean> {
+    const adminSigningKey = AdminKeyStore.getAdminSigningPublicKey();
+    if (!envelope.admin_signature || !adminSigningKey) {
+      return false;
+    }
+
+    return CryptoUtils.verify(
+      this.signedMessageFields(envelope),
+      envelope.admin_signature,
+      adminSigningKey
+    );
+  }
+
+  static async verifyKeyEnvelope(envelope: KeyEnvelope): Promise<SignatureStatus> {
+    return this.verifySignedFields(
+      this.signedKeyFields(envelope),
+      envelope.from,
+      envelope.sender_key,
+      envelope.signature
+    );
+  }
+
+  private static async verifySignedFields(
+    fields: string,
+    from: string,
+    senderKey?: string,
+    signature?: string
+  ): Promise<SignatureStatus> {
+    if (!senderKey && !signature) {
+      return 'unsigned';
+    }
+    if (!senderKey || !signature) {
+      return 'invalid';
+    }
+
+    const valid = await CryptoUtils.verify(fields, signature, senderKey);
+    if (!valid) {
+      return 'invalid';
+    }
+
+    // A signature from one key must not be able to claim another node's pseudo-ID
+    const expectedFrom = await NodeIdentity.pseudoIdForKey(senderKey);
+    return from === expectedFrom ? 'verified' : 'invalid';
+  }
 }
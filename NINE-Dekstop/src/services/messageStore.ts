@@ -1,50 +1,97 @@
-import { MessageEnvelope, KeyEnvelope, DecryptedMessage } from '../types/message';
+import {
+  MessageEnvelope,
+  KeyEnvelope,
+  StoredDecryptedMessage,
+  StoredIncidentCase,
+  MessageQuery,
+  MessagePage,
+  StoreKind,
+} from '../types/message';
+
+interface StoredRecord {
+  msg_id: string;
+  type?: string;
+  from?: string;
+  timestamp?: string;
+  chunk?: { attachment_id: string };
+}
 
 export class MessageStore {
   private static readonly BROADCAST_KEY = 'nine_broadcasts';
   private static readonly MESSAGE_MESH_KEY = 'nine_message_mesh';
   private static readonly KEY_MESH_KEY = 'nine_key_mesh';
   private static readonly DECRYPTED_KEY = 'nine_decrypted';
+  private static readonly CASES_KEY = 'nine_cases';
   private static readonly DEDUPE_KEY = 'nine_dedupe';
 
-  static saveBroadcast(message: MessageEnvelope): void {
-    const broadcasts = this.getBroadcasts();
-    broadcasts.push(message);
-    this.saveToStorage(this.BROADCAST_KEY, broadcasts);
+  private static readonly STORAGE_KEYS: Record<StoreKind, string> = {
+    broadcasts: MessageStore.BROADCAST_KEY,
+    messages: MessageStore.MESSAGE_MESH_KEY,
+    keys: MessageStore.KEY_MESH_KEY,
+    decrypted: MessageStore.DECRYPTED_KEY,
+    cases: MessageStore.CASES_KEY,
+  };
+
+  private static migration: Promise<void> | null = null;
+
+  static async saveBroadcast(message: MessageEnvelope): Promise<void> {
+    await this.put('broadcasts', message);
   }
 
-  static getBroadcasts(): MessageEnvelope[] {
-    return this.loadFromStorage(this.BROADCAST_KEY) || [];
+  static async getBroadcasts(query?: MessageQuery): Promise<MessageEnvelope[]> {
+    return (await this.query<MessageEnvelope>('broadcasts', query)).items;
   }
 
-  static saveMessageEnvelope(message: MessageEnvelope): void {
-    const messages = this.getMessageEnvelopes();
-    messages.push(message);
-    this.saveToStorage(this.MESSAGE_MESH_KEY, messages);
+  static async saveMessageEnvelope(message: MessageEnvelope): Promise<void> {
+    await this.put('messages', message);
   }
 
-  static getMessageEnvelopes(): MessageEnvelope[] {
-    return this.loadFromStorage(this.MESSAGE_MESH_KEY) || [];
+  static async getMessageEnvelopes(query?: MessageQuery): Promise<MessageEnvelope[]> {
+    return (await this.query<MessageEnvelope>('messages', query)).items;
   }
 
-  static saveKeyEnvelope(key: KeyEnvelope): void {
-    const keys = this.getKeyEnvelopes();
-    keys.push(key);
-    this.saveToStorage(this.KEY_MESH_KEY, keys);
+  static async queryMessageEnvelopes(query?: MessageQuery): Promise<MessagePage<MessageEnvelope>> {
+    return this.query<MessageEnvelope>('messages', query);
   }
 
-  static getKeyEnvelopes(): KeyEnvelope[] {
-    return this.loadFromStorage(this.KEY_MESH_KEY) || [];
+  static async saveKeyEnvelope(key: KeyEnvelope): Promise<void> {
+    await this.put('keys', key);
   }
 
-  static saveDecryptedMessage(message: DecryptedMessage): void {
-    const decrypted = this.getDecryptedMessages();
-    decrypted.push(message);
-    this.saveToStorage(this.DECRYPTED_KEY, decrypted);
+  static async getKeyEnvelopes(query?: MessageQuery): Promise<KeyEnvelope[]> {
+    return (await this.query<KeyEnvelope>('keys', query)).items;
   }
 
-  static getDecryptedMessages(): DecryptedMessage[] {
-    return this.loadFromStorage(this.DECRYPTED_KEY) || [];
+  static async saveDecryptedMessage(message: StoredDecryptedMessage): Promise<void> {
+    await this.put('decrypted', message);
+  }
+
+  static async getDecryptedMessages(query?: MessageQuery): Promise<StoredDecryptedMessage[]> {
+    return (await this.query<StoredDecryptedMessage>('decrypted', query)).items;
+  }
+
+  static async saveCase(incidentCase: StoredIncidentCase): Promise<void> {
+    await this.put('cases', incidentCase);
+  }
+
+  static async getCases(query?: MessageQuery): Promise<StoredIncidentCase[]> {
+    return (await this.query<StoredIncidentCase>('cases', query)).items;
+  }
+
+  static async getCaseById(msgId: string): Promise<StoredIncidentCase | undefined> {
+    return this.get<StoredIncidentCase>('cases', msgId);
+  }
+
+  static async getMessageEnvelopeById(msgId: string): Promise<MessageEnvelope | undefined> {
+    return this.get<MessageEnvelope>('messages', msgId);
+  }
+
+  static async getKeyEnvelopeById(msgId: string): Promise<KeyEnvelope | undefined> {
+    return this.get<KeyEnvelope>('keys', msgId);
+  }
+
+  static async getDecryptedMessageById(msgId: string): Promise<StoredDecryptedMessage | undefined> {
+    return this.get<StoredDecryptedMessage>('decrypted', msgId);
   }
 
   static isDuplicate(msgId: string): boolean {
@@ -67,6 +114,104 @@ export class MessageStore {
     return this.loadFromStorage(this.DEDUPE_KEY) || [];
   }
 
+  // Records live in the Electron main process when available, otherwise in localStorage
+
+  private static async put<T extends StoredRecord>(kind: StoreKind, record: T): Promise<void> {
+    const store = await this.mainProcessStore();
+    if (store) {
+      await store.put(kind, record);
+      return;
+    }
+
+    const records = (this.loadFromStorage<T[]>(this.STORAGE_KEYS[kind]) || []).filter(
+      (existing) => existing.msg_id !== record.msg_id
+    );
+    records.push(record);
+    this.saveToStorage(this.STORAGE_KEYS[kind], records);
+  }
+
+  private static async get<T extends StoredRecord>(
+    kind: StoreKind,
+    msgId: string
+  ): Promise<T | undefined> {
+    const store = await this.mainProcessStore();
+    if (store) {
+      return store.get<T>(kind, msgId);
+    }
+
+    const records = this.loadFromStorage<T[]>(this.STORAGE_KEYS[kind]) || [];
+    return records.find((record) => record.msg_id === msgId);
+  }
+
+  private static async query<T extends StoredRecord>(
+    kind: StoreKind,
+    query: MessageQuery = {}
+  ): Promise<MessagePage<T>> {
+    const store = await this.mainProcessStore();
+    if (store) {
+      return store.query<T>(kind, query);
+    }
+
+    const since = query.since ? new Date(query.since).getTime() : -Infinity;
+    const until = query.until ? new Date(query.until).getTime() : Infinity;
+    const matches = (this.loadFromStorage<T[]>(this.STORAGE_KEYS[kind]) || [])
+      .filter((record) => {
+        const time = record.timestamp ? new Date(record.timestamp).getTime() : 0;
+        return (
+          (!query.type || record.type === query.type) &&
+          (!query.from || record.from === query.from) &&
+          (!query.attachment || record.chunk?.attachment_id === query.attachment) &&
+          time >= since &&
+          time <= until
+        );
+      })
+      .sort((a, b) => {
+        const diff =
+          new Date(a.timestamp || 0).getTime() - new Date(b.timestamp || 0).getTime();
+        return query.order === 'asc' ? diff : -diff;
+      });
+
+    const offset = query.offset || 0;
+    const items = query.limit
+      ? matches.slice(offset, offset + query.limit)
+      : matches.slice(offset);
+    return { items, total: matches.length };
+  }
+
+  private static async mainProcessStore() {
+    const store = typeof window !== 'undefined' ? window.electronAPI?.store : undefined;
+    if (!store) {
+      return null;
+    }
+
+    if (!this.migration) {
+      this.migration = this.migrateLocalStorage();
+    }
+    await this.migration;
+    return store;
+  }
+
+  // One-off move of data saved by older versions into the main-process store
+  private static async migrateLocalStorage(): Promise<void> {
+    const store = window.electronAPI!.store;
+    const kinds = Object.keys(this.STORAGE_KEYS) as StoreKind[];
+
+    for (const kind of kinds) {
+      const records = this.loadFromStorage<StoredRecord[]>(this.STORAGE_KEYS[kind]);
+      if (!records) {
+        continue;
+      }
+      try {
+        for (const record of records) {
+          await store.put(kind, record);
+        }
+        localStorage.removeItem(this.STORAGE_KEYS[kind]);
+      } catch (error) {
+        console.error(`Failed to migrate ${kind} to the message log:`, error);
+      }
+    }
+  }
+
   private static saveToStorage<T>(key: string, data: T): void {
     try {
       const jsonString = JSON.stringify(data);
@@ -87,29 +232,27 @@ export class MessageStore {
     }
   }
 
-  static clearAll(): void {
+  static async clearAll(): Promise<void> {
+    const store = await this.mainProcessStore();
+    if (store) {
+      await store.clear();
+    }
     localStorage.removeItem(this.BROADCAST_KEY);
     localStorage.removeItem(this.MESSAGE_MESH_KEY);
     localStorage.removeItem(this.KEY_MESH_KEY);
     localStorage.removeItem(this.DECRYPTED_KEY);
+    localStorage.removeItem(this.CASES_KEY);
     localStorage.removeItem(this.DEDUPE_KEY);
   }
 
-  static exportData(): string {
+  static async exportData(): Promise<string> {
     const data = {
-      broadcasts: this.getBroadcasts(),
-      messageMesh: this.getMessageEnvelopes(),
-      keyMesh: this.getKeyEnvelopes(),
-      decrypted: this.getDecryptedMessages(),
+      broadcasts: await this.getBroadcasts(),
+      messageMesh: await this.getMessageEnvelopes(),
+      keyMesh: await this.getKeyEnvelopes(),
+      decrypted: await this.getDecryptedMessages(),
+      cases: await this.getCases(),
     };
     return JSON.stringify(data, null, 2);
   }
-
-  static getMessageEnvelopeById(msgId: string): MessageEnvelope | undefined {
-    return this.getMessageEnvelopes().find((msg) => msg.msg_id === msgId);
-  }
-
-  static getKeyEnvelopeById(msgId: string): KeyEnvelope | undefined {
-    return this.getKeyEnvelopes().find((key) => key.msg_id === msgId);
-  }
 }
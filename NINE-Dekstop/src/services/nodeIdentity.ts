@@ -0,0 +1,48 @@
+import { SigningKeyPair } from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+
+const SIGNING_PRIVATE_KEY_STORAGE = 'nine_signing_private_key';
+const SIGNING_PUBLIC_KEY_STORAGE = 'nine_signing_public_key';
+
+export class NodeIdentity {
+  private static keyPair: SigningKeyPair | null = null;
+  private static pseudoId: string | null = null;
+  // 80 bits of the key fingerprint; a short prefix could be ground to pass for another node
+  private static readonly PSEUDO_ID_HEX_CHARS = 20;
+
+  static async getSigningKeyPair(): Promise<SigningKeyPair> {
+    if (this.keyPair) {
+      return this.keyPair;
+    }
+
+    const privateKey = localStorage.getItem(SIGNING_PRIVATE_KEY_STORAGE);
+    const publicKey = localStorage.getItem(SIGNING_PUBLIC_KEY_STORAGE);
+
+    if (privateKey && publicKey) {
+      this.keyPair = { privateKey, publicKey };
+    } else {
+      this.keyPair = await CryptoUtils.generateSigningKeyPair();
+      localStorage.setItem(SIGNING_PRIVATE_KEY_STORAGE, this.keyPair.privateKey);
+      localStorage.setItem(SIGNING_PUBLIC_KEY_STORAGE, this.keyPair.publicKey);
+    }
+
+    return this.keyPair;
+  }
+
+  static async getPublicKey(): Promise<string> {
+    return (await this.getSigningKeyPair()).publicKey;
+  }
+
+  // The pseudo-ID is derived from the signing key, so a valid signature also vouches for `from`
+  static async getPseudoId(): Promise<string> {
+    if (!this.pseudoId) {
+      this.pseudoId = await this.pseudoIdForKey(await this.getPublicKey());
+    }
+    return this.pseudoId;
+  }
+
+  static async pseudoIdForKey(publicKey: string): Promise<string> {
+    const fingerprint = await CryptoUtils.fingerprint(publicKey);
+    return `user_${fingerprint.substring(0, this.PSEUDO_ID_HEX_CHARS)}`;
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  DeliveryStatus,
+  IncidentCase,
+  MessageEnvelope,
+  ReceiptStatus,
+  ReportDelivery,
+} from '../types/message';
+import { AdminKeyStore } from './adminKeyStore';
+import { CaseManager } from './caseManager';
+import { MessageFactory } from './messageFactory';
+import { MessageStore } from './messageStore';
+import { MeshNetwork } from './meshNetwork';
+
+const DELIVERIES_STORAGE = 'nine_report_deliveries';
+
+/**
+ * Tells reporters how far their e2e reports have got. The mesh server confirms it took a
+ * report (relayed); the admin node sends a 'receipt' envelope when it decrypts the report
+ * and another when someone starts working the case (acknowledged). Receipts are
+ * countersigned with the admin signing key and routed back by the report's msg_id.
+ */
+export class ReceiptService {
+  static readonly STATUSES: DeliveryStatus[] = ['sent', 'relayed', 'decrypted', 'acknowledged'];
+
+  // Reporter side: start following a report this node just sent
+  static trackReport(msgId: string): void {
+    this.advance(msgId, 'sent', true);
+  }
+
+  static markRelayed(msgId: string): boolean {
+    return this.advance(msgId, 'relayed', true);
+  }
+
+  // Reporter side: the mesh server refused the report or its key, so it cannot be read
+  static markRejected(msgId: string, reason: string): boolean {
+    const deliveries = this.getDeliveries();
+    if (!deliveries[msgId]) {
+      return false;
+    }
+    deliveries[msgId] = { ...deliveries[msgId], rejected: reason, updated_at: new Date().toISOString() };
+    localStorage.setItem(DELIVERIES_STORAGE, JSON.stringify(deliveries));
+    return true;
+  }
+
+  /**
+   * Reporter side: apply a receipt for one of this node's reports. Receipts that are not
+   * signed by the trusted admin still count, but only as unverified steps: a signed receipt
+   * of the same status still confirms them when it arrives.
+   */
+  static async applyReceipt(envelope: MessageEnvelope): Promise<boolean> {
+    if (envelope.type !== 'receipt' || !envelope.in_reply_to) {
+      return false;
+    }
+    const status = envelope.payload as ReceiptStatus;
+    if (status !== 'decrypted' && status !== 'acknowledged') {
+      console.warn(`Ignoring receipt ${envelope.msg_id} with unknown status ${envelope.payload}`);
+      return false;
+    }
+    if (!this.getDeliveries()[envelope.in_reply_to]) {
+      return false;
+    }
+
+    const verified = await MessageFactory.verifyAdminSignature(envelope);
+    if (!verified) {
+      console.warn(`Receipt ${envelope.msg_id} is not signed by the trusted admin`);
+    }
+    return this.advance(envelope.in_reply_to, status, verified);
+  }
+
+  // Catch up on receipts whose envelopes arrived before this node was listening
+  static async applyPendingReceipts(): Promise<void> {
+    const envelopes = await MessageStore.getMessageEnvelopes({ type: 'receipt', order: 'asc' });
+    for (const envelope of envelopes) {
+      await this.applyReceipt(envelope);
+    }
+  }
+
+  // Furthest status backed by this node's own view or a signed receipt; records kept before
+  // this was tracked only know whether their latest status was verified
+  static getVerifiedStatus(delivery: ReportDelivery): DeliveryStatus {
+    return delivery.verified_status ?? (delivery.verified ? delivery.status : 'sent');
+  }
+
+  static getDeliveries(): Record<string, ReportDelivery> {
+    try {
+      const value = localStorage.getItem(DELIVERIES_STORAGE);
+      return value ? JSON.parse(value) : {};
+    } catch (error) {
+      console.error('Failed to load report deliveries:', error);
+      return {};
+    }
+  }
+
+  // Admin side: send a receipt for a decrypted report
+  static async sendReceipt(reportMsgId: string, status: ReceiptStatus): Promise<MessageEnvelope> {
+    const adminSigningKey = AdminKeyStore.getAdminSigningPrivateKey();
+    if (!AdminKeyStore.isAdminMode() || !adminSigningKey) {
+      throw new Error('Receipts are only sent from unlocked admin mode');
+    }
+
+    const envelope = await MessageFactory.createReceiptMessage(reportMsgId, status, adminSigningKey);
+    await MeshNetwork.getInstance().broadcastMessage(envelope);
+    return envelope;
+  }
+
+  // Admin side: tell the reporter their case is being worked, and note it on the case
+  static async acknowledge(reportMsgId: string): Promise<IncidentCase> {
+    await this.sendReceipt(reportMsgId, 'acknowledged');
+    return CaseManager.recordReceipt(reportMsgId, 'Acknowledgement sent to the reporter');
+  }
+
+  /**
+   * Statuses only move forward; a repeated or late receipt does not undo a later one. The
+   * claimed and the verified status advance separately, so a forged unsigned receipt can run
+   * ahead but never stops the signed receipt of the same status from confirming it.
+   */
+  private static advance(msgId: string, status: DeliveryStatus, verified: boolean): boolean {
+    const deliveries = this.getDeliveries();
+    const current = deliveries[msgId];
+    if (status !== 'sent' && !current) {
+      return false;
+    }
+
+    const rank = (value: DeliveryStatus) => this.STATUSES.indexOf(value);
+    const claimed = current && rank(current.status) >= rank(status) ? current.status : status;
+    const confirmed = current ? this.getVerifiedStatus(current) : status;
+    const verifiedStatus = verified && rank(status) > rank(confirmed) ? status : confirmed;
+    if (current && claimed === current.status && verifiedStatus === current.verified_status) {
+      return false;
+    }
+
+    deliveries[msgId] = {
+      ...current,
+      msg_id: msgId,
+      status: claimed,
+      updated_at: new Date().toISOString(),
+      verified: claimed === verifiedStatus,
+      verified_status: verifiedStatus,
+    };
+    localStorage.setItem(DELIVERIES_STORAGE, JSON.stringify(deliveries));
+    return true;
+  }
+}
@@ -0,0 +1,60 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Recipient, RecipientGroup } from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+
+const RECIPIENT_GROUPS_STORAGE = 'nine_recipient_groups';
+
+export class RecipientGroupStore {
+  // Relays refuse key envelopes wrapped for more members than this
+  static readonly MAX_MEMBERS = 64;
+
+  static getGroups(): RecipientGroup[] {
+    try {
+      const value = localStorage.getItem(RECIPIENT_GROUPS_STORAGE);
+      return value ? JSON.parse(value) : [];
+    } catch (error) {
+      console.error('Failed to load recipient groups:', error);
+      return [];
+    }
+  }
+
+  static getGroup(id: string): RecipientGroup | undefined {
+    return this.getGroups().find((group) => group.id === id);
+  }
+
+  static createGroup(name: string, members: Recipient[]): RecipientGroup {
+    if (members.length > this.MAX_MEMBERS) {
+      throw new Error(`A group may have at most ${this.MAX_MEMBERS} members`);
+    }
+    const group: RecipientGroup = { id: uuidv4(), name, members };
+    this.saveGroups([...this.getGroups(), group]);
+    return group;
+  }
+
+  static deleteGroup(id: string): void {
+    this.saveGroups(this.getGroups().filter((group) => group.id !== id));
+  }
+
+  // Point members holding a rotated-out admin key at its replacement
+  static async replaceMemberKey(previousKeyId: string, publicKey: string): Promise<void> {
+    const groups = this.getGroups();
+    let changed = false;
+
+    for (const group of groups) {
+      for (const member of group.members) {
+        if ((await CryptoUtils.fingerprint(member.publicKey)) === previousKeyId) {
+          member.publicKey = publicKey;
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      this.saveGroups(groups);
+    }
+  }
+
+  private static saveGroups(groups: RecipientGroup[]): void {
+    localStorage.setItem(RECIPIENT_GROUPS_STORAGE, JSON.stringify(groups));
+  }
+}
@@ -0,0 +1,161 @@
+import { AdminKeyPair, MessageEnvelope, ReceivedReply } from '../types/message';
+import { CryptoUtils } from '../utils/crypto';
+import { AdminKeyStore } from './adminKeyStore';
+import { AdminVault } from './adminVault';
+import { MessageFactory } from './messageFactory';
+import { MessageStore } from './messageStore';
+import { MeshNetwork } from './meshNetwork';
+import { NodeIdentity } from './nodeIdentity';
+
+const REPLY_KEYS_STORAGE = 'nine_reply_keys';
+const REPLIES_STORAGE = 'nine_replies';
+
+/**
+ * Encrypted replies from the admin back to a reporter. Every e2e report carries a fresh
+ * reply public key, encrypted with the report's session key so only the admin learns it.
+ * A reply travels like a report: a 'reply' envelope with the encrypted text, and a key
+ * envelope wrapping its session key for the reporter's reply key.
+ */
+export class ReplyService {
+  static readonly MAX_REPLY = 2000;
+
+  // Reporter side: a fresh keypair for the replies to one report
+  static async createReplyKey(): Promise<AdminKeyPair> {
+    return CryptoUtils.generateEphemeralKeyPair(await NodeIdentity.getPseudoId());
+  }
+
+  static saveReplyKey(reportMsgId: string, keyPair: AdminKeyPair): void {
+    const keys = this.getReplyKeys();
+    keys[reportMsgId] = keyPair;
+    localStorage.setItem(REPLY_KEYS_STORAGE, JSON.stringify(keys));
+  }
+
+  /**
+   * Admin side: encrypt `text` for the reporter of a decrypted report and send it
+   * through the mesh.
+   */
+  static async sendReply(reportMsgId: string, text: string): Promise<MessageEnvelope> {
+    const content = text.trim();
+    if (!content) {
+      throw new Error('Reply is empty');
+    }
+    if (content.length > this.MAX_REPLY) {
+      throw new Error(`Replies are limited to ${this.MAX_REPLY} characters`);
+    }
+
+    const adminSigningKey = AdminKeyStore.getAdminSigningPrivateKey();
+    if (!AdminKeyStore.isAdminMode() || AdminVault.isLocked() || !adminSigningKey) {
+      throw new Error('Replies are only sent from unlocked admin mode');
+    }
+
+    const stored = await MessageStore.getDecryptedMessageById(reportMsgId);
+    const report = stored && (await AdminVault.openDecryptedMessage(stored));
+    if (!report?.replyKey) {
+      throw new Error('This report has no reply channel');
+    }
+
+    await CryptoUtils.initialize();
+    const sessionKey = CryptoUtils.generateSessionKey();
+    const envelope = await MessageFactory.createReplyMessage(
+      reportMsgId,
+      await CryptoUtils.encryptMessage(content, sessionKey),
+      adminSigningKey
+    );
+    const keyEnvelope = await MessageFactory.createKeyEnvelope(
+      envelope.msg_id,
+      await CryptoUtils.wrapSessionKey(sessionKey, report.replyKey),
+      await CryptoUtils.fingerprint(report.replyKey),
+      'reporter'
+    );
+
+    const meshNetwork = MeshNetwork.getInstance();
+    await meshNetwork.broadcastMessage(envelope);
+    await meshNetwork.broadcastKeyEnvelope(keyEnvelope);
+    return envelope;
+  }
+
+  /**
+   * Reporter side: open the reply with this msg_id once both of its envelopes have
+   * arrived. Null for replies to reports this node did not send.
+   */
+  static async openReply(msgId: string): Promise<ReceivedReply | null> {
+    const existing = this.getReplies().find((reply) => reply.msg_id === msgId);
+    if (existing) {
+      return existing;
+    }
+
+    const envelope = await MessageStore.getMessageEnvelopeById(msgId);
+    const keyEnvelope = await MessageStore.getKeyEnvelopeById(msgId);
+    if (envelope?.type !== 'reply' || !envelope.in_reply_to || !keyEnvelope?.wrapped_key) {
+      return null;
+    }
+
+    const replyKey = this.getReplyKeys()[envelope.in_reply_to];
+    if (!replyKey || keyEnvelope.key_id !== (await CryptoUtils.fingerprint(replyKey.publicKey))) {
+      return null;
+    }
+
+    try {
+      const sessionKey = await CryptoUtils.unwrapSessionKey(
+        keyEnvelope.wrapped_key,
+        replyKey.privateKey
+      );
+      const reply: ReceivedReply = {
+        msg_id: msgId,
+        in_reply_to: envelope.in_reply_to,
+        content: await CryptoUtils.decryptMessage(envelope.payload, sessionKey),
+        timestamp: envelope.timestamp,
+        from: envelope.from,
+        verified: await MessageFactory.verifyAdminSignature(envelope),
+      };
+      if (!reply.verified) {
+        console.warn(`Reply ${msgId} is not signed by the trusted admin`);
+      }
+
+      localStorage.setItem(REPLIES_STORAGE, JSON.stringify([...this.getReplies(), reply]));
+      return reply;
+    } catch (error) {
+      console.error(`Failed to open reply ${msgId}:`, error);
+      return null;
+    }
+  }
+
+  // Catch up on replies whose envelopes arrived before this node was listening
+  static async openPendingReplies(): Promise<void> {
+    const envelopes = await MessageStore.getMessageEnvelopes({ type: 'reply' });
+    for (const envelope of envelopes) {
+      await this.openReply(envelope.msg_id);
+    }
+  }
+
+  // Opened replies grouped by the report they answer, oldest first
+  static getRepliesByReport(): Record<string, ReceivedReply[]> {
+    const byReport: Record<string, ReceivedReply[]> = {};
+    [...this.getReplies()]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach((reply) => {
+        byReport[reply.in_reply_to] = [...(byReport[reply.in_reply_to] || []), reply];
+      });
+    return byReport;
+  }
+
+  private static getReplyKeys(): Record<string, AdminKeyPair> {
+    try {
+      const value = localStorage.getItem(REPLY_KEYS_STORAGE);
+      return value ? JSON.parse(value) : {};
+    } catch (error) {
+      console.error('Failed to load reply keys:', error);
+      return {};
+    }
+  }
+
+  private static getReplies(): ReceivedReply[] {
+    try {
+      const value = localStorage.getItem(REPLIES_STORAGE);
+      return value ? JSON.parse(value) : [];
+    } catch (error) {
+      console.error('Failed to load replies:', error);
+      return [];
+    }
+  }
+}
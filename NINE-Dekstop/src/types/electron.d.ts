@@ -1,7 +1,67 @@
+import { AdminKeyStatement, MessagePage, MessageQuery, StoreKind } from './message';
+
+export interface NearbyServer {
+  nodeId: string;
+  address: string;
+  port: number;
+  url: string;
+  lastSeen: number;
+}
+
+export interface MessageLogStats {
+  deadLines: number;
+  broadcasts: number;
+  messages: number;
+  keys: number;
+  decrypted: number;
+  relayMessages: number;
+  relayKeys: number;
+}
+
+export interface ServerCertificate {
+  fingerprint: string; // SHA-256, colon-separated hex
+  gatewayUrls: string[];
+}
+
+export interface CertificateCheck {
+  status: 'own' | 'pinned' | 'match' | 'mismatch';
+  fingerprint: string;
+  pinned?: string; // The fingerprint pinned for this server, if any
+}
+
+export interface PinnedServer {
+  host: string; // host:port
+  fingerprint: string;
+}
+
+export interface MapTileSource {
+  url: string; // base of {z}/{x}/{y}.png
+  zooms: number[]; // zoom levels installed, empty when there are no tiles
+  dir?: string; // folder the tiles are read from, on the desktop app
+}
+
+export interface MessageLogAPI {
+  put: <T>(kind: StoreKind, record: T) => Promise<void>;
+  get: <T>(kind: StoreKind, msgId: string) => Promise<T | undefined>;
+  query: <T>(kind: StoreKind, query?: MessageQuery) => Promise<MessagePage<T>>;
+  clear: () => Promise<void>;
+  stats: () => Promise<MessageLogStats>;
+}
+
 export interface ElectronAPI {
   getServerUrl: () => Promise<string>;
+  getMeshSecret: () => Promise<string | null>;
   getGatewayUrl: () => Promise<string>;
+  getMapTiles: () => Promise<MapTileSource>;
+  getServerCertificate: () => Promise<ServerCertificate | null>;
+  checkServerCertificate: (url: string) => Promise<CertificateCheck>;
+  getPinnedServers: () => Promise<PinnedServer[]>;
+  forgetPinnedServer: (host: string) => Promise<void>;
+  publishAdminKeys: (statements: AdminKeyStatement[]) => Promise<void>;
+  getNearbyServers: () => Promise<NearbyServer[]>;
   onPeerUpdate: (callback: (data: any) => void) => void;
+  onNearbyServersUpdate: (callback: (servers: NearbyServer[]) => void) => void;
+  store: MessageLogAPI;
 }
 
 declare global {
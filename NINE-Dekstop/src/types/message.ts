@@ -1,16 +1,48 @@
 export interface HopInfo {
   nodeId: string;
   timestamp: string;
+  ttl?: number;
+  prev_hash?: string;
+  signer_key?: string;
+  signature?: string;
+}
+
+export type HopStatus = 'valid' | 'unsigned' | 'tampered';
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+  accuracy?: number; // Meters
+  timestamp: string; // When the position was taken
 }
 
 export interface MessageMeta {
   name?: string;
-  location?: string;
+  location?: string; // Free-text description, e.g. "Building A, Floor 3"
+  coords?: GeoPoint;
   contact?: string;
-  imageRef?: string;
+  imageRef?: string; // attachment_id of the attachment sent with an e2e message
+}
+
+export type MessageType = 'broadcast' | 'e2e' | 'key_rotation' | 'attachment' | 'reply' | 'receipt';
+
+// Plaintext routing info of one 'attachment' envelope; the payload is the encrypted chunk
+export interface AttachmentChunk {
+  attachment_id: string;
+  parent_msg_id: string;
+  index: number;
+  total: number;
+  manifest?: string; // Encrypted AttachmentManifest, carried by chunk 0
+}
+
+export interface AttachmentManifest {
+  name: string;
+  mime: string;
+  size: number;
+  hash: string; // Hash of the whole plaintext file, checked after reassembly
 }
 
-export type MessageType = 'broadcast' | 'e2e';
+export type AlertPriority = 'info' | 'warning' | 'evacuation';
 
 export interface MessageEnvelope {
   msg_id: string;
@@ -22,14 +54,61 @@ export interface MessageEnvelope {
   hops: HopInfo[];
   payload: string;
   meta?: MessageMeta;
+  priority?: AlertPriority;
+  chunk?: AttachmentChunk;
+  reply_key?: string; // Reporter's reply public key on an e2e envelope, encrypted with the session key
+  in_reply_to?: string; // msg_id of the report a 'reply' or 'receipt' envelope answers
+  sender_key?: string;
+  signature?: string;
+  admin_signature?: string;
+}
+
+export interface WrappedKey {
+  key_id: string; // Fingerprint of the recipient's public key
+  wrapped_key: string;
 }
 
 export interface KeyEnvelope {
   msg_id: string;
   from: string;
-  to: string;
-  wrapped_key: string;
+  to: string; // 'admin', or the name of a recipient group
+  key_id?: string; // Fingerprint of the admin key a single-recipient envelope is wrapped for
+  wrapped_key?: string; // Single-recipient envelopes
+  recipients?: WrappedKey[]; // Group envelopes, one wrapped copy per member
   algorithm: string;
+  sender_key?: string;
+  signature?: string;
+}
+
+export interface Recipient {
+  name: string;
+  publicKey: string;
+}
+
+export interface RecipientGroup {
+  id: string;
+  name: string;
+  members: Recipient[];
+}
+
+export type SignatureStatus = 'verified' | 'unsigned' | 'invalid';
+
+export type StoreKind = 'broadcasts' | 'messages' | 'keys' | 'decrypted' | 'cases';
+
+export interface MessageQuery {
+  type?: MessageType;
+  from?: string;
+  attachment?: string; // Chunks of this attachment_id
+  since?: string;
+  until?: string;
+  order?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface MessagePage<T> {
+  items: T[];
+  total: number;
 }
 
 export interface AdminKeyPair {
@@ -37,13 +116,142 @@ export interface AdminKeyPair {
   privateKey: string;
 }
 
+export interface AdminPrivateKeys {
+  privateKey: string;
+  signingPrivateKey: string | null;
+  retiredKeys?: string | null; // JSON list of RetiredAdminKey
+}
+
+export interface RetiredAdminKey extends AdminKeyPair {
+  keyId: string;
+  retiredAt: string;
+}
+
+// Payload of a 'key_rotation' envelope, countersigned with the admin signing key
+export interface KeyRotationNotice {
+  key_id: string;
+  public_key: string;
+  previous_key_id: string;
+  rotated_at: string;
+}
+
+// The current admin encryption key as published to gateway pages and shared by QR code
+export interface AdminKeyStatement {
+  key_id: string;
+  public_key: string;
+  signing_key?: string;
+  issued_at: string;
+  signature?: string; // By the admin signing key; missing when this node never received one
+}
+
+export interface SigningKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export type IncidentNeed = 'water' | 'food' | 'medical' | 'shelter' | 'rescue' | 'evacuation';
+
+export type IncidentSeverity = 'low' | 'moderate' | 'high' | 'critical';
+
+export type IncidentStatus = 'open' | 'in_progress' | 'resolved';
+
+// Structured body of an e2e message, encrypted as JSON in place of plain text
+export interface IncidentReport {
+  schema: 'nine-incident';
+  version: 1;
+  description: string;
+  people: number;
+  injuries: number;
+  needs: IncidentNeed[];
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+}
+
+export interface DecryptedAttachment {
+  name: string;
+  mime: string;
+  size: number;
+  data?: string; // Data URL for files that are not images
+}
+
 export interface DecryptedMessage {
   msg_id: string;
-  content: string;
-  image?: string;
+  content: string; // The report description, or the plain text of an unstructured message
+  report?: IncidentReport;
+  replyKey?: string; // Public key the admin encrypts replies to; absent when the sender cannot receive them
+  image?: string; // Data URL of an attached photo
+  attachment?: DecryptedAttachment;
   timestamp: string;
   from: string;
   meta?: MessageMeta;
   messagePath: HopInfo[];
   keyPath: HopInfo[];
 }
+
+// How a decrypted message is kept at rest once an admin passphrase is set
+export interface SealedDecryptedMessage {
+  msg_id: string;
+  timestamp: string;
+  sealed: string;
+}
+
+export type StoredDecryptedMessage = DecryptedMessage | SealedDecryptedMessage;
+
+// An admin reply opened by the reporter it was addressed to
+export interface ReceivedReply {
+  msg_id: string;
+  in_reply_to: string;
+  content: string;
+  timestamp: string;
+  from: string;
+  verified: boolean; // Countersigned with the admin signing key this node trusts
+}
+
+// Payload of a 'receipt' envelope, sent by the admin node for a report
+export type ReceiptStatus = 'decrypted' | 'acknowledged';
+
+// How far a report this node sent has got, in order
+export type DeliveryStatus = 'sent' | 'relayed' | ReceiptStatus;
+
+export interface ReportDelivery {
+  msg_id: string;
+  status: DeliveryStatus;
+  updated_at: string;
+  verified: boolean; // False when the receipt behind the status is not signed by the trusted admin
+  verified_status?: DeliveryStatus; // Furthest status this node saw itself or from a signed receipt
+  rejected?: string; // Why the mesh server refused the message or its key envelope
+}
+
+// Where the admin console has got to with a report; separate from the reporter's own status
+export type CaseStatus = 'open' | 'acknowledged' | 'dispatched' | 'resolved';
+
+export interface CaseNote {
+  text: string;
+  author: string; // Pseudo-ID of the admin node that wrote it
+  at: string;
+}
+
+export interface CaseEvent {
+  action: 'status' | 'assigned' | 'note' | 'reply' | 'receipt';
+  detail: string;
+  by: string;
+  at: string;
+}
+
+// Case record for a decrypted message, keyed by the same msg_id. Kept only on the admin node
+export interface IncidentCase {
+  msg_id: string;
+  timestamp: string; // When the case was last changed
+  status: CaseStatus;
+  assignee?: string;
+  notes: CaseNote[];
+  audit: CaseEvent[];
+}
+
+export interface SealedIncidentCase {
+  msg_id: string;
+  timestamp: string;
+  sealed: string;
+}
+
+export type StoredIncidentCase = IncidentCase | SealedIncidentCase;
@@ -1,19 +1,27 @@
 import { CryptoUtils } from './crypto';
 import { AdminKeyStore } from '../services/adminKeyStore';
+import { AdminVault } from '../services/adminVault';
 import { AdminKeyPair } from '../types/message';
 
 export class AdminKeyGenerator {
   static async generateAndStoreAdminKeys(): Promise<AdminKeyPair> {
     const keyPair = await CryptoUtils.generateAdminKeyPair();
     AdminKeyStore.saveAdminKeyPair(keyPair);
+    await this.ensureAdminSigningKeys();
+    await AdminVault.sealAdminKeys();
     return keyPair;
   }
 
   static async initializeAdminMode(): Promise<AdminKeyPair> {
+    if (AdminVault.isLocked()) {
+      throw new Error('Unlock admin mode with its passphrase first');
+    }
+
     if (AdminKeyStore.hasAdminKeys()) {
       const stored = AdminKeyStore.getAdminKeyPair();
       if (stored) {
         AdminKeyStore.setAdminMode(true);
+        await this.ensureAdminSigningKeys();
         return stored;
       }
     }
@@ -21,11 +29,24 @@ export class AdminKeyGenerator {
     return this.generateAndStoreAdminKeys();
   }
 
+  // Admins set up before official alerts existed only have an encryption key
+  private static async ensureAdminSigningKeys(): Promise<void> {
+    if (!AdminKeyStore.hasAdminSigningKeys()) {
+      AdminKeyStore.saveAdminSigningKeyPair(await CryptoUtils.generateSigningKeyPair());
+      await AdminVault.sealAdminKeys();
+    }
+  }
+
+  static getSigningKeyForSharing(): string | null {
+    return AdminKeyStore.getAdminSigningPublicKey();
+  }
+
   static getPublicKeyForSharing(): string | null {
     return AdminKeyStore.getAdminPublicKey();
   }
 
   static resetAdminKeys(): void {
+    AdminVault.reset();
     AdminKeyStore.clearAdminKeys();
   }
 
@@ -0,0 +1,14 @@
+// JSON with object keys sorted, so signed bytes survive re-serialisation by relays
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce((sorted, key) => {
+          sorted[key] = (val as Record<string, unknown>)[key];
+          return sorted;
+        }, {} as Record<string, unknown>);
+    }
+    return val;
+  });
+}
@@ -1,5 +1,5 @@
-import sodium from 'libsodium-wrappers';
-import { AdminKeyPair } from '../types/message';
+import sodium from 'libsodium-wrappers-sumo';
+import { AdminKeyPair, SigningKeyPair } from '../types/message';
 
 export class CryptoUtils {
   private static initialized = false;
@@ -40,10 +40,13 @@ export class CryptoUtils {
   }
 
   static async encryptMessage(message: string, sessionKey: Uint8Array): Promise<string> {
+    return this.encryptBytes(new TextEncoder().encode(message), sessionKey);
+  }
+
+  static async encryptBytes(bytes: Uint8Array, sessionKey: Uint8Array): Promise<string> {
     await this.initialize();
     const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
-    const messageBytes = new TextEncoder().encode(message);
-    const ciphertext = sodium.crypto_secretbox_easy(messageBytes, nonce, sessionKey);
+    const ciphertext = sodium.crypto_secretbox_easy(bytes, nonce, sessionKey);
 
     const combined = new Uint8Array(nonce.length + ciphertext.length);
     combined.set(nonce);
@@ -53,13 +56,16 @@ export class CryptoUtils {
   }
 
   static async decryptMessage(encryptedMessage: string, sessionKey: Uint8Array): Promise<string> {
+    return new TextDecoder().decode(await this.decryptBytes(encryptedMessage, sessionKey));
+  }
+
+  static async decryptBytes(encrypted: string, sessionKey: Uint8Array): Promise<Uint8Array> {
     await this.initialize();
-    const combined = sodium.from_base64(encryptedMessage);
+    const combined = sodium.from_base64(encrypted);
     const nonce = combined.slice(0, sodium.crypto_secretbox_NONCEBYTES);
     const ciphertext = combined.slice(sodium.crypto_secretbox_NONCEBYTES);
 
-    const decrypted = sodium.crypto_secretbox_open_easy(ciphertext, nonce, sessionKey);
-    return new TextDecoder().decode(decrypted);
+    return sodium.crypto_secretbox_open_easy(ciphertext, nonce, sessionKey);
   }
 
   static async wrapSessionKey(sessionKey: Uint8Array, adminPublicKey: string): Promise<string> {
@@ -114,4 +120,103 @@ export class CryptoUtils {
   static generateSessionKey(): Uint8Array {
     return sodium.randombytes_buf(32);
   }
+
+  static async generateSigningKeyPair(): Promise<SigningKeyPair> {
+    await this.initialize();
+    const keypair = sodium.crypto_sign_keypair();
+    return {
+      publicKey: sodium.to_base64(keypair.publicKey),
+      privateKey: sodium.to_base64(keypair.privateKey),
+    };
+  }
+
+  static async sign(message: string, privateKey: string): Promise<string> {
+    await this.initialize();
+    const signature = sodium.crypto_sign_detached(
+      new TextEncoder().encode(message),
+      sodium.from_base64(privateKey)
+    );
+    return sodium.to_base64(signature);
+  }
+
+  static async verify(message: string, signature: string, publicKey: string): Promise<boolean> {
+    await this.initialize();
+    try {
+      return sodium.crypto_sign_verify_detached(
+        sodium.from_base64(signature),
+        new TextEncoder().encode(message),
+        sodium.from_base64(publicKey)
+      );
+    } catch {
+      // Malformed base64 or wrong key length
+      return false;
+    }
+  }
+
+  static async hash(message: string): Promise<string> {
+    await this.initialize();
+    return sodium.to_base64(sodium.crypto_generichash(32, new TextEncoder().encode(message)));
+  }
+
+  static async hashBytes(bytes: Uint8Array): Promise<string> {
+    await this.initialize();
+    return sodium.to_base64(sodium.crypto_generichash(32, bytes));
+  }
+
+  static async fingerprint(publicKey: string): Promise<string> {
+    await this.initialize();
+    return sodium.to_hex(sodium.crypto_generichash(16, sodium.from_base64(publicKey)));
+  }
+
+  /**
+   * Fingerprint of the admin encryption key together with the admin signing key, which is what
+   * users compare when they import admin keys. Without a signing key it equals fingerprint().
+   */
+  static async adminFingerprint(publicKey: string, signingKey?: string | null): Promise<string> {
+    await this.initialize();
+    const encryption = sodium.from_base64(publicKey);
+    const signing = signingKey ? sodium.from_base64(signingKey) : new Uint8Array(0);
+    const keys = new Uint8Array(encryption.length + signing.length);
+    keys.set(encryption);
+    keys.set(signing, encryption.length);
+    return sodium.to_hex(sodium.crypto_generichash(16, keys));
+  }
+
+  static async generatePassphraseSalt(): Promise<string> {
+    await this.initialize();
+    return sodium.to_base64(sodium.randombytes_buf(sodium.crypto_pwhash_SALTBYTES));
+  }
+
+  // Argon2id stretch of a passphrase into a secretbox key, for use with encryptMessage
+  static async deriveKeyFromPassphrase(
+    passphrase: string,
+    salt: string,
+    opsLimit: number = sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE,
+    memLimit: number = sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE
+  ): Promise<Uint8Array> {
+    await this.initialize();
+    return sodium.crypto_pwhash(
+      sodium.crypto_secretbox_KEYBYTES,
+      passphrase,
+      sodium.from_base64(salt),
+      opsLimit,
+      memLimit,
+      sodium.crypto_pwhash_ALG_ARGON2ID13
+    );
+  }
+
+  static async randomBytes(length: number): Promise<Uint8Array> {
+    await this.initialize();
+    return sodium.randombytes_buf(length);
+  }
+
+  static async toBase64(bytes: Uint8Array): Promise<string> {
+    await this.initialize();
+    return sodium.to_base64(bytes);
+  }
+
+  static async fromBase64(value: string): Promise<Uint8Array> {
+    await this.initialize();
+    return sodium.from_base64(value);
+  }
 }
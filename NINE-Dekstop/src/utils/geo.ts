@@ -0,0 +1,105 @@
+import { GeoPoint } from '../types/message';
+import { MapTileSource } from '../types/electron';
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export class GeoUtils {
+  static readonly TILE_SIZE = 256;
+  static readonly MAX_ZOOM = 17;
+
+  /**
+   * Ask the device for its current position. Rejects when location is unavailable,
+   * e.g. without a GPS fix or on a gateway page served over plain HTTP.
+   */
+  static getCurrentPosition(timeoutMs = 10000): Promise<GeoPoint> {
+    return new Promise((resolve, reject) => {
+      if (typeof navigator === 'undefined' || !navigator.geolocation) {
+        reject(new Error('Location is not available on this device'));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          resolve({
+            lat: position.coords.latitude,
+            lon: position.coords.longitude,
+            accuracy: Math.round(position.coords.accuracy),
+            timestamp: new Date(position.timestamp).toISOString(),
+          }),
+        (error) => reject(new Error(error.message || 'Could not determine your location')),
+        { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+      );
+    });
+  }
+
+  // Parse "lat, lon" as typed by hand
+  static parse(text: string): GeoPoint | null {
+    const parts = text.split(',').map((part) => Number(part.trim()));
+    if (parts.length !== 2) {
+      return null;
+    }
+    const point = { lat: parts[0], lon: parts[1], timestamp: new Date().toISOString() };
+    return this.isValid(point) ? point : null;
+  }
+
+  // Coordinates come from other nodes, so check them before plotting
+  static isValid(point: GeoPoint | undefined | null): point is GeoPoint {
+    return (
+      !!point &&
+      Number.isFinite(point.lat) &&
+      Number.isFinite(point.lon) &&
+      Math.abs(point.lat) <= 90 &&
+      Math.abs(point.lon) <= 180
+    );
+  }
+
+  static format(point: GeoPoint): string {
+    const accuracy = point.accuracy ? ` ±${point.accuracy} m` : '';
+    return `${point.lat.toFixed(5)}, ${point.lon.toFixed(5)}${accuracy}`;
+  }
+
+  /**
+   * Web Mercator position in pixels at the given zoom, matching the usual z/x/y tile layout.
+   */
+  static project(point: { lat: number; lon: number }, zoom: number): PixelPoint {
+    const scale = this.TILE_SIZE * 2 ** zoom;
+    const lat = Math.max(-85.05112878, Math.min(85.05112878, point.lat));
+    const sin = Math.sin((lat * Math.PI) / 180);
+    return {
+      x: ((point.lon + 180) / 360) * scale,
+      y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+    };
+  }
+
+  static unproject(pixel: PixelPoint, zoom: number): { lat: number; lon: number } {
+    const scale = this.TILE_SIZE * 2 ** zoom;
+    const n = Math.PI - (2 * Math.PI * pixel.y) / scale;
+    return {
+      lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+      lon: (pixel.x / scale) * 360 - 180,
+    };
+  }
+
+  /**
+   * Where the map's z/x/y tiles come from: the desktop app's embedded server, or the relay that
+   * served this web build. No zoom levels means no tile set is installed.
+   */
+  static async findTiles(): Promise<MapTileSource> {
+    if (typeof window !== 'undefined' && window.electronAPI) {
+      return window.electronAPI.getMapTiles();
+    }
+    try {
+      const response = await fetch('/map/tiles.json');
+      const { zooms } = await response.json();
+      return { url: '/map/tiles', zooms: Array.isArray(zooms) ? zooms : [] };
+    } catch {
+      return { url: '/map/tiles', zooms: [] };
+    }
+  }
+
+  static metersPerPixel(lat: number, zoom: number): number {
+    return (156543.03392 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom;
+  }
+}
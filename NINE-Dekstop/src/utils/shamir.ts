@@ -0,0 +1,100 @@
+import { CryptoUtils } from './crypto';
+
+export interface SecretShare {
+  x: number; // Share index, 1..255
+  y: Uint8Array;
+}
+
+/**
+ * Shamir secret sharing over GF(256), one random polynomial per secret byte.
+ * Any `threshold` shares recover the secret; fewer reveal nothing about it.
+ */
+export class Shamir {
+  private static exp: number[] = [];
+  private static log: number[] = [];
+
+  private static buildTables(): void {
+    if (this.exp.length) {
+      return;
+    }
+    this.exp = new Array(510);
+    this.log = new Array(256);
+    let value = 1;
+    for (let i = 0; i < 255; i++) {
+      this.exp[i] = value;
+      this.log[value] = i;
+      // Multiply by the generator 3 in the AES field
+      value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+    }
+    for (let i = 255; i < 510; i++) {
+      this.exp[i] = this.exp[i - 255];
+    }
+  }
+
+  private static mul(a: number, b: number): number {
+    if (a === 0 || b === 0) {
+      return 0;
+    }
+    return this.exp[this.log[a] + this.log[b]];
+  }
+
+  private static div(a: number, b: number): number {
+    if (a === 0) {
+      return 0;
+    }
+    return this.exp[this.log[a] + 255 - this.log[b]];
+  }
+
+  static async split(secret: Uint8Array, shareCount: number, threshold: number): Promise<SecretShare[]> {
+    if (threshold < 2 || threshold > shareCount || shareCount > 255) {
+      throw new Error('Threshold must be between 2 and the number of shares (at most 255)');
+    }
+    this.buildTables();
+
+    const shares: SecretShare[] = Array.from({ length: shareCount }, (_, i) => ({
+      x: i + 1,
+      y: new Uint8Array(secret.length),
+    }));
+
+    for (let byte = 0; byte < secret.length; byte++) {
+      const coefficients = [secret[byte], ...(await CryptoUtils.randomBytes(threshold - 1))];
+      for (const share of shares) {
+        // Horner evaluation of the polynomial at share.x
+        let y = 0;
+        for (let c = coefficients.length - 1; c >= 0; c--) {
+          y = this.mul(y, share.x) ^ coefficients[c];
+        }
+        share.y[byte] = y;
+      }
+    }
+
+    return shares;
+  }
+
+  static combine(shares: SecretShare[]): Uint8Array {
+    if (shares.length < 2) {
+      throw new Error('At least two shares are needed');
+    }
+    if (new Set(shares.map((share) => share.x)).size !== shares.length) {
+      throw new Error('The same share was given twice');
+    }
+    this.buildTables();
+
+    const secret = new Uint8Array(shares[0].y.length);
+    for (let byte = 0; byte < secret.length; byte++) {
+      // Lagrange interpolation at x = 0
+      let value = 0;
+      for (const share of shares) {
+        let basis = 1;
+        for (const other of shares) {
+          if (other.x !== share.x) {
+            basis = this.mul(basis, this.div(other.x, other.x ^ share.x));
+          }
+        }
+        value ^= this.mul(share.y[byte], basis);
+      }
+      secret[byte] = value;
+    }
+    return secret;
+  }
+}